@@ -1,24 +1,45 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { AppProvider, useApp } from './contexts/AppContext';
 import { ThemeProvider, useTheme } from './components/ThemeProvider';
 import { RecordButton } from './components/RecordButton';
 import { TranscriptView } from './components/TranscriptView';
 import { SummariesView } from './components/SummariesView';
 import { QAView } from './components/QAView';
+import { MinutesView } from './components/MinutesView';
 import { SettingsDialog } from './components/SettingsDialog';
 import { DarkModeToggle } from './components/DarkModeToggle';
 import { SoundVisualizer } from './components/SoundVisualizer';
+import { SessionSidebar } from './components/SessionSidebar';
+import { ExportMenu } from './components/ExportMenu';
+import { ExportFormat } from './lib/export';
+import { getSessionSpeakers } from './lib/speakers';
+import { useSessionRecording } from './hooks/useSessionRecording';
 import { Toaster } from '@/components/ui/sonner';
+import { SidebarProvider, useSidebar } from '@/components/ui/sidebar';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
 import {
   ChatText,
   ListBullets,
   Question,
-  PaperPlaneRight
+  Notebook,
+  PaperPlaneRight,
+  ClockCounterClockwise,
+  FileAudio,
+  Pause,
+  Play
 } from '@phosphor-icons/react';
 
-type PanelType = 'transcript' | 'summaries' | 'qa' | null;
+type PanelType = 'transcript' | 'summaries' | 'minutes' | 'qa' | null;
+
+// Export formats offered in each panel header
+const PANEL_EXPORT_FORMATS: Record<Exclude<PanelType, null>, ExportFormat[]> = {
+  transcript: ['text', 'srt', 'vtt', 'markdown', 'json'],
+  summaries: ['markdown', 'json'],
+  minutes: ['markdown', 'json'],
+  qa: ['markdown', 'json']
+};
 
 function AppContent() {
   const {
@@ -26,10 +47,31 @@ function AppContent() {
     updateSettings,
     recordingState,
     toggleRecording,
+    pauseRecording,
+    resumeRecording,
+    fileTranscription,
+    transcribeAudioFile,
+    cancelFileTranscription,
+    sessions,
+    activeSessionId,
+    newSession,
+    openSession,
+    renameSession,
+    deleteSession,
+    importSession,
+    updateSpeaker,
     transcript,
+    pendingSegment,
     summaries,
+    minutes,
+    isGeneratingMinutes,
+    generateMinutes,
     qaList,
     askQuestion,
+    activeThreadId,
+    continueThread,
+    startNewThread,
+    stopAnswer,
     sttStatus,
     openaiStatus,
     updateSTTStatus,
@@ -37,9 +79,13 @@ function AppContent() {
   } = useApp();
 
   const { theme, setTheme } = useTheme();
+  const { open: isSidebarOpen, openMobile: isSidebarOpenMobile, isMobile, toggleSidebar } = useSidebar();
   const [activePanel, setActivePanel] = useState<PanelType>(null);
   const [message, setMessage] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // Transcript segments an answer cites, shown highlighted in the transcript panel
+  const [highlightedSegmentIds, setHighlightedSegmentIds] = useState<string[]>([]);
+  const audioFileInputRef = useRef<HTMLInputElement>(null);
 
   // Sync theme with app settings (one-way sync to avoid loops)
   useEffect(() => {
@@ -49,11 +95,16 @@ function AppContent() {
     }
   }, [theme]); // Only depend on theme, not settings.darkMode to avoid loop
 
-  // Format recording time
+  // Highlights refer to segments of the session they were set in
+  useEffect(() => {
+    setHighlightedSegmentIds([]);
+  }, [activeSessionId]);
+
+  // Format recording time, leaving out paused stretches
   const formatRecordingTime = () => {
-    if (!recordingState.isRecording || !recordingState.startTime) return '00:00';
+    if (!recordingState.isRecording) return '00:00';
 
-    const elapsedMs = Date.now() - recordingState.startTime;
+    const elapsedMs = recordingState.duration + (recordingState.startTime ? Date.now() - recordingState.startTime : 0);
     const seconds = Math.floor((elapsedMs / 1000) % 60);
     const minutes = Math.floor((elapsedMs / (1000 * 60)) % 60);
     const hours = Math.floor(elapsedMs / (1000 * 60 * 60));
@@ -69,12 +120,13 @@ function AppContent() {
     e.preventDefault();
     if (!message.trim() || isSubmitting) return;
 
+    const question = message.trim();
     setIsSubmitting(true);
+    setMessage('');
+    // Open the QA panel right away so the answer can be followed as it streams in
+    setActivePanel('qa');
     try {
-      await askQuestion(message.trim());
-      setMessage('');
-      // Optionally open QA panel to show the result
-      setActivePanel('qa');
+      await askQuestion(question);
     } catch (error) {
       console.error('Error asking question:', error);
     } finally {
@@ -86,156 +138,292 @@ function AppContent() {
     setActivePanel(activePanel === panel ? null : panel);
   };
 
+  const activeSession = sessions.find((session) => session.id === activeSessionId);
+  const recordingUrl = useSessionRecording(activeSession);
+  const speakers = activeSession ? getSessionSpeakers(activeSession) : [];
+
   return (
-    <div className="min-h-screen bg-background text-foreground flex flex-col">
-      {/* Main content area */}
-      <div className="flex-1 flex flex-col">
-        {/* Main content - take up most of the space */}
-        <main className="flex-1 flex items-center justify-center p-4">
-          <div className="text-center space-y-4 max-w-md">
-            {(sttStatus !== 'connected' || openaiStatus !== 'connected') && (
-              <div className="text-amber-500 text-sm">
-                Configure Azure services in settings to enable recording.
-              </div>
-            )}
-          </div>
-        </main>
-
-        {/* Centered control bar */}
-        <div className="fixed bottom-8 left-1/2 transform -translate-x-1/2 z-50">
-          <div className="bg-background/80 backdrop-blur-lg border border-border/50 rounded-2xl shadow-2xl p-4 md:p-6 max-w-4xl w-screen mx-4 md:mx-0 md:w-auto">
-            <div className="flex flex-col md:flex-row items-center gap-4 md:gap-6">
-              {/* Record button - always centered on mobile */}
-              <div className="flex-shrink-0 order-1 md:order-none">
-                <RecordButton
-                  isRecording={recordingState.isRecording}
-                  onToggle={toggleRecording}
-                  disabled={sttStatus !== 'connected' || openaiStatus !== 'connected'}
-                />
-              </div>
+    <>
+      <SessionSidebar
+        sessions={sessions}
+        activeSessionId={activeSessionId}
+        isCapturing={recordingState.isRecording || !!fileTranscription}
+        onNewSession={newSession}
+        onOpenSession={openSession}
+        onRenameSession={renameSession}
+        onDeleteSession={deleteSession}
+        onImportSession={importSession}
+      />
+      <div className="min-h-screen flex-1 min-w-0 bg-background text-foreground flex flex-col">
+        {/* Main content area */}
+        <div className="flex-1 flex flex-col">
+          {/* Main content - take up most of the space */}
+          <main className="flex-1 flex items-center justify-center p-4">
+            <div className="text-center space-y-4 max-w-md">
+              {(sttStatus !== 'connected' || openaiStatus !== 'connected') && (
+                <div className="text-amber-500 text-sm">
+                  Configure speech and OpenAI services in settings to enable recording.
+                </div>
+              )}
 
-              {/* Recording status and visualizer - stack on mobile */}
-              <div className="flex-1 min-w-0 max-w-xs order-2 md:order-none">
-                {recordingState.isRecording && (
-                  <div className="flex items-center justify-center gap-2 mb-2 md:mb-1">
-                    <div className="text-xs text-muted-foreground bg-primary/10 px-2 py-1 rounded">
-                      {formatRecordingTime()}
-                    </div>
+              {fileTranscription && (
+                <div className="space-y-2 text-left">
+                  <div className="flex items-center justify-between gap-2 text-sm">
+                    <span className="truncate">Transcribing {fileTranscription.fileName}</span>
+                    <span className="text-muted-foreground">{Math.round(fileTranscription.progress * 100)}%</span>
+                  </div>
+                  <Progress value={fileTranscription.progress * 100} />
+                  <div className="flex justify-end">
+                    <Button variant="ghost" size="sm" onClick={cancelFileTranscription} className="h-7 px-2 text-xs">
+                      Cancel
+                    </Button>
                   </div>
-                )}
+                </div>
+              )}
+            </div>
+          </main>
 
-                {/* Sound visualizer */}
-                <SoundVisualizer isRecording={recordingState.isRecording} />
-              </div>
+          {/* Centered control bar */}
+          <div className="fixed bottom-8 left-1/2 transform -translate-x-1/2 z-50">
+            <div className="bg-background/80 backdrop-blur-lg border border-border/50 rounded-2xl shadow-2xl p-4 md:p-6 max-w-4xl w-screen mx-4 md:mx-0 md:w-auto">
+              <div className="flex flex-col md:flex-row items-center gap-4 md:gap-6">
+                {/* Record button - always centered on mobile */}
+                <div className="flex-shrink-0 order-1 md:order-none flex items-center gap-2">
+                  <RecordButton
+                    isRecording={recordingState.isRecording}
+                    onToggle={toggleRecording}
+                    // A recording can always be stopped, even while recognition is reconnecting
+                    disabled={!recordingState.isRecording && (sttStatus !== 'connected' || openaiStatus !== 'connected' || !!fileTranscription)}
+                  />
+                  {recordingState.isRecording && (
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={recordingState.isPaused ? resumeRecording : pauseRecording}
+                      className="h-10 w-10 rounded-full"
+                      aria-label={recordingState.isPaused ? 'Resume recording' : 'Pause recording'}
+                      title={recordingState.isPaused ? 'Resume recording' : 'Pause recording; nothing is transcribed until you resume'}
+                    >
+                      {recordingState.isPaused ? <Play weight="bold" size={16} /> : <Pause weight="bold" size={16} />}
+                    </Button>
+                  )}
+                </div>
+
+                {/* Recording status and visualizer - stack on mobile */}
+                <div className="flex-1 min-w-0 max-w-xs order-2 md:order-none">
+                  {recordingState.isRecording && (
+                    <div className="flex items-center justify-center gap-2 mb-2 md:mb-1">
+                      <div className="text-xs text-muted-foreground bg-primary/10 px-2 py-1 rounded">
+                        {formatRecordingTime()}
+                      </div>
+                      {recordingState.isPaused && (
+                        <div className="text-xs text-amber-500">Paused</div>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Sound visualizer */}
+                  <SoundVisualizer isRecording={recordingState.isRecording && !recordingState.isPaused} />
+                </div>
 
-              {/* Message input field - full width on mobile */}
-              <div className="flex-1 w-full md:max-w-sm order-3 md:order-none">
-                <form onSubmit={handleMessageSubmit} className="flex gap-2">
-                  <Input
-                    placeholder="Ask..."
-                    value={message}
-                    onChange={(e) => setMessage(e.target.value)}
-                    disabled={isSubmitting || (sttStatus !== 'connected' || openaiStatus !== 'connected')}
-                    className="flex-1 h-9 bg-background/50 border-border/30"
+                {/* Message input field - full width on mobile */}
+                <div className="flex-1 w-full md:max-w-sm order-3 md:order-none">
+                  <form onSubmit={handleMessageSubmit} className="flex gap-2">
+                    <Input
+                      placeholder={activeThreadId ? 'Ask a follow-up...' : 'Ask...'}
+                      value={message}
+                      onChange={(e) => setMessage(e.target.value)}
+                      disabled={openaiStatus !== 'connected'}
+                      className="flex-1 h-9 bg-background/50 border-border/30"
+                    />
+                    <Button
+                      type="submit"
+                      disabled={!message.trim() || isSubmitting || openaiStatus !== 'connected'}
+                      size="sm"
+                      className="px-3"
+                    >
+                      <PaperPlaneRight size={14} />
+                    </Button>
+                  </form>
+                </div>
+
+                {/* Control buttons - spread on mobile */}
+                <div className="flex items-center gap-1 flex-shrink-0 order-4 md:order-none">
+                  <Button
+                    variant={(isMobile ? isSidebarOpenMobile : isSidebarOpen) ? 'default' : 'ghost'}
+                    size="sm"
+                    onClick={toggleSidebar}
+                    className="h-9 w-9 p-0"
+                    aria-label="Session history"
+                  >
+                    <ClockCounterClockwise size={16} />
+                  </Button>
+
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => audioFileInputRef.current?.click()}
+                    disabled={sttStatus !== 'connected' || recordingState.isRecording || !!fileTranscription}
+                    className="h-9 w-9 p-0"
+                    aria-label="Upload audio"
+                    title="Transcribe a WAV, MP3 or OGG recording"
+                  >
+                    <FileAudio size={16} />
+                  </Button>
+                  <input
+                    ref={audioFileInputRef}
+                    type="file"
+                    accept="audio/*,.wav,.mp3,.ogg"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) transcribeAudioFile(file);
+                      e.target.value = '';
+                    }}
                   />
+
                   <Button
-                    type="submit"
-                    disabled={!message.trim() || isSubmitting || (sttStatus !== 'connected' || openaiStatus !== 'connected')}
+                    variant={activePanel === 'transcript' ? 'default' : 'ghost'}
                     size="sm"
-                    className="px-3"
+                    onClick={() => togglePanel('transcript')}
+                    className="h-9 w-9 p-0"
                   >
-                    <PaperPlaneRight size={14} />
+                    <ChatText size={16} />
                   </Button>
-                </form>
-              </div>
 
-              {/* Control buttons - spread on mobile */}
-              <div className="flex items-center gap-1 flex-shrink-0 order-4 md:order-none">
-                <Button
-                  variant={activePanel === 'transcript' ? 'default' : 'ghost'}
-                  size="sm"
-                  onClick={() => togglePanel('transcript')}
-                  className="h-9 w-9 p-0"
-                >
-                  <ChatText size={16} />
-                </Button>
-
-                <Button
-                  variant={activePanel === 'summaries' ? 'default' : 'ghost'}
-                  size="sm"
-                  onClick={() => togglePanel('summaries')}
-                  className="h-9 w-9 p-0"
-                >
-                  <ListBullets size={16} />
-                </Button>
-
-                <Button
-                  variant={activePanel === 'qa' ? 'default' : 'ghost'}
-                  size="sm"
-                  onClick={() => togglePanel('qa')}
-                  className="h-9 w-9 p-0"
-                >
-                  <Question size={16} />
-                </Button>
-
-                <div className="w-px h-6 bg-border mx-1" />
-
-                <SettingsDialog
-                  settings={settings}
-                  onUpdateSettings={updateSettings}
-                  sttStatus={sttStatus}
-                  openaiStatus={openaiStatus}
-                  updateSTTStatus={updateSTTStatus}
-                  updateOpenAIStatus={updateOpenAIStatus}
-                />
-
-                <DarkModeToggle />
+                  <Button
+                    variant={activePanel === 'summaries' ? 'default' : 'ghost'}
+                    size="sm"
+                    onClick={() => togglePanel('summaries')}
+                    className="h-9 w-9 p-0"
+                  >
+                    <ListBullets size={16} />
+                  </Button>
+
+                  <Button
+                    variant={activePanel === 'minutes' ? 'default' : 'ghost'}
+                    size="sm"
+                    onClick={() => togglePanel('minutes')}
+                    className="h-9 w-9 p-0"
+                  >
+                    <Notebook size={16} />
+                  </Button>
+
+                  <Button
+                    variant={activePanel === 'qa' ? 'default' : 'ghost'}
+                    size="sm"
+                    onClick={() => togglePanel('qa')}
+                    className="h-9 w-9 p-0"
+                  >
+                    <Question size={16} />
+                  </Button>
+
+                  <div className="w-px h-6 bg-border mx-1" />
+
+                  <SettingsDialog
+                    settings={settings}
+                    onUpdateSettings={updateSettings}
+                    sttStatus={sttStatus}
+                    openaiStatus={openaiStatus}
+                    updateSTTStatus={updateSTTStatus}
+                    updateOpenAIStatus={updateOpenAIStatus}
+                  />
+
+                  <DarkModeToggle />
+                </div>
               </div>
             </div>
           </div>
         </div>
-      </div>
 
-      {/* Side panels - slide in from the right, adjust for mobile */}
-      {activePanel && (
-        <div className="fixed inset-0 md:inset-y-0 md:right-0 md:left-auto z-40">
-          {/* Mobile backdrop */}
-          <div
-            className="md:hidden absolute inset-0 bg-black/50 backdrop-blur-sm"
-            onClick={() => setActivePanel(null)}
-          />
-
-          {/* Panel content */}
-          <div className="absolute right-0 top-0 h-full w-full max-w-sm md:max-w-md lg:max-w-lg xl:max-w-xl md:min-w-[320px] lg:min-w-[400px] md:border-l bg-background shadow-xl animate-in slide-in-from-right duration-300">
-            <div className="h-full flex flex-col">
-              <div className="p-4 border-b flex items-center justify-between bg-muted/30">
-                <h3 className="font-semibold text-sm">
-                  {activePanel === 'transcript' && 'Live Transcript'}
-                  {activePanel === 'summaries' && 'Summaries'}
-                  {activePanel === 'qa' && 'Questions & Answers'}
-                </h3>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => setActivePanel(null)}
-                  className="h-6 w-6 p-0 hover:bg-background"
-                >
-                  <span className="text-lg">×</span>
-                </Button>
-              </div>
+        {/* Side panels - slide in from the right, adjust for mobile */}
+        {activePanel && (
+          <div className="fixed inset-0 md:inset-y-0 md:right-0 md:left-auto z-40">
+            {/* Mobile backdrop */}
+            <div
+              className="md:hidden absolute inset-0 bg-black/50 backdrop-blur-sm"
+              onClick={() => setActivePanel(null)}
+            />
+
+            {/* Panel content */}
+            <div className="absolute right-0 top-0 h-full w-full max-w-sm md:max-w-md lg:max-w-lg xl:max-w-xl md:min-w-[320px] lg:min-w-[400px] md:border-l bg-background shadow-xl animate-in slide-in-from-right duration-300">
+              <div className="h-full flex flex-col">
+                <div className="p-4 border-b flex items-center justify-between bg-muted/30">
+                  <div className="min-w-0">
+                    <h3 className="font-semibold text-sm">
+                      {activePanel === 'transcript' && 'Live Transcript'}
+                      {activePanel === 'summaries' && 'Summaries'}
+                      {activePanel === 'minutes' && 'Meeting Minutes'}
+                      {activePanel === 'qa' && 'Questions & Answers'}
+                    </h3>
+                    {activeSession && (
+                      <div className="text-xs text-muted-foreground truncate">{activeSession.title}</div>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <ExportMenu
+                      session={activeSession ?? null}
+                      formats={PANEL_EXPORT_FORMATS[activePanel]}
+                      recordingStartTime={activeSession?.recording?.startTime}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setActivePanel(null)}
+                      className="h-6 w-6 p-0 hover:bg-background"
+                    >
+                      <span className="text-lg">×</span>
+                    </Button>
+                  </div>
+                </div>
 
-              <div className="flex-1 overflow-hidden">
-                {activePanel === 'transcript' && <TranscriptView segments={transcript} />}
-                {activePanel === 'summaries' && <SummariesView summaries={summaries} />}
-                {activePanel === 'qa' && <QAView qaList={qaList} />}
+                <div className="flex-1 overflow-hidden">
+                  {activePanel === 'transcript' && (
+                    <TranscriptView
+                      segments={transcript}
+                      pendingSegment={pendingSegment}
+                      recording={recordingUrl && activeSession?.recording
+                        ? { url: recordingUrl, startTime: activeSession.recording.startTime, pauses: activeSession.pauses }
+                        : null}
+                      speakers={speakers}
+                      onUpdateSpeaker={activeSession
+                        ? (speakerId, changes) => updateSpeaker(activeSession.id, speakerId, changes)
+                        : undefined}
+                      highlightedSegmentIds={highlightedSegmentIds}
+                    />
+                  )}
+                  {activePanel === 'summaries' && <SummariesView summaries={summaries} />}
+                  {activePanel === 'minutes' && (
+                    <MinutesView
+                      minutes={minutes}
+                      hasSummaries={summaries.length > 0}
+                      isGenerating={isGeneratingMinutes}
+                      isRecording={recordingState.isRecording}
+                      onGenerate={generateMinutes}
+                    />
+                  )}
+                  {activePanel === 'qa' && (
+                    <QAView
+                      qaList={qaList}
+                      onStopAnswer={stopAnswer}
+                      activeThreadId={activeThreadId}
+                      onContinueThread={continueThread}
+                      onNewThread={startNewThread}
+                      onShowSegments={(segmentIds) => {
+                        setHighlightedSegmentIds(segmentIds);
+                        setActivePanel('transcript');
+                      }}
+                    />
+                  )}
+                </div>
               </div>
             </div>
           </div>
-        </div>
-      )}
+        )}
 
-      <Toaster />
-    </div>
+        <Toaster />
+      </div>
+    </>
   );
 }
 
@@ -243,7 +431,9 @@ function App() {
   return (
     <ThemeProvider>
       <AppProvider>
-        <AppContent />
+        <SidebarProvider defaultOpen={false}>
+          <AppContent />
+        </SidebarProvider>
       </AppProvider>
     </ThemeProvider>
   );
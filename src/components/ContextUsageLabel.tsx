@@ -0,0 +1,25 @@
+import { ContextUsage } from '@/contexts/types';
+
+const formatTokens = (tokens: number) =>
+  tokens >= 1000 ? `${(tokens / 1000).toFixed(tokens >= 10000 ? 0 : 1)}k` : `${tokens}`;
+
+// How much of the model's context window a request used, and how much of the transcript it saw
+export function ContextUsageLabel({ usage }: { usage: ContextUsage }) {
+  const share = Math.round((usage.promptTokens / usage.contextWindow) * 100);
+  const abridged = usage.segmentsIncluded < usage.segmentsTotal;
+
+  return (
+    <span
+      className="text-xs text-muted-foreground"
+      title={`${usage.promptTokens.toLocaleString()} of ${usage.contextWindow.toLocaleString()} context tokens (${share}%)`}
+    >
+      {formatTokens(usage.promptTokens)} / {formatTokens(usage.contextWindow)} tokens
+      {abridged && (
+        <>
+          {' '}• {usage.segmentsIncluded} of {usage.segmentsTotal} segments
+          {usage.summariesIncluded > 0 && ` + ${usage.summariesIncluded} ${usage.summariesIncluded === 1 ? 'summary' : 'summaries'}`}
+        </>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,53 @@
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { Button } from '@/components/ui/button';
+import { Session } from '@/contexts/types';
+import { downloadExportedFile, exportSession, ExportFormat, getExportFormatLabel } from '@/lib/export';
+import { DownloadSimple } from '@phosphor-icons/react';
+import { toast } from 'sonner';
+
+interface ExportMenuProps {
+  session: Session | null;
+  formats: ExportFormat[];
+  recordingStartTime?: number | null;
+}
+
+export function ExportMenu({ session, formats, recordingStartTime }: ExportMenuProps) {
+  const handleExport = (format: ExportFormat) => {
+    if (!session) return;
+
+    try {
+      downloadExportedFile(exportSession(session, format, recordingStartTime ?? session.startTime));
+    } catch (error) {
+      console.error('Error exporting session:', error);
+      toast.error('Failed to export session');
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          disabled={!session}
+          className="h-6 w-6 p-0 hover:bg-background"
+          aria-label="Export"
+        >
+          <DownloadSimple size={14} />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {formats.map((format) => (
+          <DropdownMenuItem key={format} onClick={() => handleExport(format)}>
+            {getExportFormatLabel(format)}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
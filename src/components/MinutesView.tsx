@@ -0,0 +1,101 @@
+import { Card, CardContent } from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Button } from '@/components/ui/button';
+import { MeetingMinutes } from '@/contexts/types';
+import { ArrowClockwise, CircleNotch } from '@phosphor-icons/react';
+
+interface MinutesViewProps {
+  minutes: MeetingMinutes | null;
+  hasSummaries: boolean;
+  isGenerating: boolean;
+  isRecording: boolean;
+  onGenerate: () => void;
+}
+
+// Bulleted section of the minutes, left out when it has no entries
+function MinutesSection({ title, items }: { title: string; items: React.ReactNode[] }) {
+  if (items.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-semibold">{title}</h4>
+      <ul className="list-disc pl-5 space-y-1 text-sm">
+        {items.map((item, index) => (
+          <li key={index}>{item}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export function MinutesView({ minutes, hasSummaries, isGenerating, isRecording, onGenerate }: MinutesViewProps) {
+  const canGenerate = hasSummaries && !isGenerating && !isRecording;
+
+  return (
+    <Card className="flex-1 overflow-hidden">
+      <CardContent className="p-0">
+        <ScrollArea className="h-[calc(100vh-12rem)] w-full">
+          <div className="p-4 space-y-6">
+            {!minutes ? (
+              <div className="flex flex-col items-center justify-center h-32 gap-3 text-center text-muted-foreground">
+                {isGenerating
+                  ? 'Writing meeting minutes...'
+                  : 'No minutes yet. Minutes are written from the summaries when a recording stops.'}
+                {!isGenerating && hasSummaries && (
+                  <Button variant="outline" size="sm" onClick={onGenerate} disabled={!canGenerate}>
+                    Generate minutes
+                  </Button>
+                )}
+              </div>
+            ) : (
+              <>
+                <div className="flex items-center justify-between gap-2">
+                  <div className="text-xs text-muted-foreground">
+                    Written {new Date(minutes.createdAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })} from {minutes.summaryIds.length} summaries
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={onGenerate}
+                    disabled={!canGenerate}
+                    className="h-7 px-2 text-xs"
+                  >
+                    {isGenerating
+                      ? <CircleNotch size={12} className="mr-1 animate-spin" />
+                      : <ArrowClockwise size={12} className="mr-1" />}
+                    Regenerate
+                  </Button>
+                </div>
+
+                {minutes.overview && (
+                  <div className="space-y-2">
+                    <h4 className="text-sm font-semibold">Overview</h4>
+                    <p className="text-sm whitespace-pre-wrap">{minutes.overview}</p>
+                  </div>
+                )}
+
+                <MinutesSection title="Decisions" items={minutes.decisions} />
+                <MinutesSection
+                  title="Action Items"
+                  items={minutes.actionItems.map((item) => (
+                    <>
+                      {item.text}
+                      {(item.owner || item.due) && (
+                        <span className="text-muted-foreground">
+                          {item.owner && ` — ${item.owner}`}
+                          {item.due && ` (due ${item.due})`}
+                        </span>
+                      )}
+                    </>
+                  ))}
+                />
+                <MinutesSection title="Open Questions" items={minutes.openQuestions} />
+                <MinutesSection title="Next Steps" items={minutes.nextSteps} />
+              </>
+            )}
+          </div>
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+}
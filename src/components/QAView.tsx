@@ -1,46 +1,77 @@
 import { Card, CardContent } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Button } from '@/components/ui/button';
 import { QAPair } from '@/contexts/types';
+import { getThreadId, groupQAThreads } from '@/lib/sessions';
+import { stripCitations } from '@/lib/citations';
+import { ContextUsageLabel } from '@/components/ContextUsageLabel';
+import { ArrowBendDownRight, Plus, Quotes, Stop } from '@phosphor-icons/react';
 
 interface QAViewProps {
   qaList: QAPair[];
+  onStopAnswer: (id: string) => void;
+  // Thread that manual questions are added to; null when the next one starts a new thread
+  activeThreadId: string | null;
+  onContinueThread: (threadId: string) => void;
+  onNewThread: () => void;
+  // Open the transcript at the segments an answer cites
+  onShowSegments: (segmentIds: string[]) => void;
 }
 
-export function QAView({ qaList }: QAViewProps) {
+export function QAView({ qaList, onStopAnswer, activeThreadId, onContinueThread, onNewThread, onShowSegments }: QAViewProps) {
+  const threads = groupQAThreads(qaList);
+  const hasActiveThread = threads.some((thread) => getThreadId(thread[0]) === activeThreadId);
+
   return (
     <Card className="flex-1 overflow-hidden">
       <CardContent className="p-0">
-        <ScrollArea className="h-[calc(100vh-12rem)] w-full">
+        {threads.length > 0 && (
+          <div className="flex items-center justify-between gap-2 px-4 py-2 border-b text-xs text-muted-foreground">
+            <span>{hasActiveThread ? 'Questions continue the highlighted thread' : 'The next question starts a new thread'}</span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onNewThread}
+              disabled={!hasActiveThread}
+              className="h-7 px-2 text-xs"
+            >
+              <Plus size={12} className="mr-1" />
+              New thread
+            </Button>
+          </div>
+        )}
+        <ScrollArea className={`${threads.length > 0 ? 'h-[calc(100vh-15rem)]' : 'h-[calc(100vh-12rem)]'} w-full`}>
           <div className="p-4 space-y-6">
-            {qaList.length === 0 ? (
+            {threads.length === 0 ? (
               <div className="flex items-center justify-center h-32 text-muted-foreground">
                 No questions yet. Use the message field at the top to ask questions about the conversation.
               </div>
             ) : (
-              qaList.map((qa) => (
-                <div key={qa.id} className="space-y-2">
-                  <div className="flex items-start gap-3">
-                    <div className="bg-primary text-primary-foreground rounded-full p-1 mt-0.5">
-                      <span className="text-xs font-medium px-1">Q</span>
-                    </div>
-                    <div className="flex-1">
-                      <div className="font-medium">{qa.question}</div>
-                      <div className="text-xs text-muted-foreground mt-1">
-                        {qa.isManual ? 'Manually asked' : 'Detected in conversation'} • {new Date(qa.timestamp).toLocaleTimeString()}
-                      </div>
-                    </div>
-                  </div>
-
-                  <div className="flex items-start gap-3 pl-10">
-                    <div className="bg-accent text-accent-foreground rounded-full p-1 mt-0.5">
-                      <span className="text-xs font-medium px-1">A</span>
-                    </div>
-                    <div className="flex-1">
-                      <div>{qa.answer}</div>
-                    </div>
+              threads.map((thread) => {
+                const threadId = getThreadId(thread[0]);
+                const isActive = threadId === activeThreadId;
+                return (
+                  <div
+                    key={threadId}
+                    className={`space-y-4 rounded-md border p-3 ${isActive ? 'border-primary/60 bg-primary/5' : ''}`}
+                  >
+                    {thread.map((qa) => (
+                      <QATurn key={qa.id} qa={qa} onStopAnswer={onStopAnswer} onShowSegments={onShowSegments} />
+                    ))}
+                    {!isActive && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => onContinueThread(threadId)}
+                        className="h-7 px-2 text-xs text-muted-foreground"
+                      >
+                        <ArrowBendDownRight size={12} className="mr-1" />
+                        Ask a follow-up
+                      </Button>
+                    )}
                   </div>
-                </div>
-              ))
+                );
+              })
             )}
           </div>
         </ScrollArea>
@@ -48,3 +79,103 @@ export function QAView({ qaList }: QAViewProps) {
     </Card>
   );
 }
+
+interface QATurnProps {
+  qa: QAPair;
+  onStopAnswer: (id: string) => void;
+  onShowSegments: (segmentIds: string[]) => void;
+}
+
+// One question of a thread with its answer
+function QATurn({ qa, onStopAnswer, onShowSegments }: QATurnProps) {
+  const sources = qa.sourceSegmentIds ?? [];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-start gap-3">
+        <div className="bg-primary text-primary-foreground rounded-full p-1 mt-0.5">
+          <span className="text-xs font-medium px-1">Q</span>
+        </div>
+        <div className="flex-1">
+          <div className="font-medium">{qa.question}</div>
+          <div className="text-xs text-muted-foreground mt-1">
+            {qa.isManual ? 'Manually asked' : 'Detected in conversation'} • {new Date(qa.timestamp).toLocaleTimeString()}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-start gap-3 pl-10">
+        <div className="bg-accent text-accent-foreground rounded-full p-1 mt-0.5">
+          <span className="text-xs font-medium px-1">A</span>
+        </div>
+        <div className="flex-1">
+          <div className="whitespace-pre-wrap">
+            {/* Markers refer to prompt line numbers until the answer is complete */}
+            {qa.isStreaming ? stripCitations(qa.answer) : <AnswerText qa={qa} onShowSegments={onShowSegments} />}
+            {qa.isStreaming && (
+              <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-foreground/60 animate-pulse" />
+            )}
+          </div>
+          {qa.isStreaming && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onStopAnswer(qa.id)}
+              className="h-7 px-2 mt-1 text-xs text-muted-foreground"
+            >
+              <Stop size={12} className="mr-1" />
+              Stop
+            </Button>
+          )}
+          {sources.length > 1 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onShowSegments(sources)}
+              className="h-7 px-2 mt-1 text-xs text-muted-foreground"
+            >
+              <Quotes size={12} className="mr-1" />
+              Show all {sources.length} sources
+            </Button>
+          )}
+          {qa.contextUsage && !qa.isStreaming && (
+            <div className="mt-1">
+              <ContextUsageLabel usage={qa.contextUsage} />
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Answer text with its citation markers as chips that open the cited segment
+function AnswerText({ qa, onShowSegments }: { qa: QAPair; onShowSegments: (segmentIds: string[]) => void }) {
+  const sources = qa.sourceSegmentIds ?? [];
+  if (sources.length === 0) {
+    return <>{qa.answer}</>;
+  }
+
+  return (
+    <>
+      {qa.answer.split(/(\[\d+\])/).map((part, index) => {
+        // Only markers numbered by resolveCitations point at a source; anything else stays text
+        const number = /^\[\d+\]$/.test(part) ? parseInt(part.slice(1), 10) : 0;
+        if (number < 1 || number > sources.length) return part;
+        const segmentId = sources[number - 1];
+
+        return (
+          <button
+            key={index}
+            type="button"
+            onClick={() => onShowSegments([segmentId])}
+            className="mx-0.5 rounded bg-primary/10 px-1 align-super text-[10px] font-medium text-primary hover:bg-primary/20"
+            title="Show in transcript"
+          >
+            {part.slice(1, -1)}
+          </button>
+        );
+      })}
+    </>
+  );
+}
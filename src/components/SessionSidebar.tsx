@@ -0,0 +1,222 @@
+import { useRef, useState } from 'react';
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarHeader,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem
+} from '@/components/ui/sidebar';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Session } from '@/contexts/types';
+import { IMPORT_FILE_ACCEPT } from '@/lib/import';
+import { DotsThree, PencilSimple, Plus, Trash, UploadSimple } from '@phosphor-icons/react';
+
+interface SessionSidebarProps {
+  sessions: Session[];
+  activeSessionId: string | null;
+  // A recording or audio file transcription is writing into the active session
+  isCapturing: boolean;
+  onNewSession: () => void;
+  onOpenSession: (id: string) => void;
+  onRenameSession: (id: string, title: string) => void;
+  onDeleteSession: (id: string) => void;
+  onImportSession: (file: File) => void;
+}
+
+export function SessionSidebar({
+  sessions,
+  activeSessionId,
+  isCapturing,
+  onNewSession,
+  onOpenSession,
+  onRenameSession,
+  onDeleteSession,
+  onImportSession
+}: SessionSidebarProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+  const [pendingDelete, setPendingDelete] = useState<Session | null>(null);
+
+  // Most recent sessions first
+  const sortedSessions = [...sessions].sort((a, b) => b.startTime - a.startTime);
+
+  const startRename = (session: Session) => {
+    setEditingId(session.id);
+    setEditingTitle(session.title);
+  };
+
+  const commitRename = () => {
+    if (editingId) {
+      onRenameSession(editingId, editingTitle);
+    }
+    setEditingId(null);
+  };
+
+  const formatSessionDate = (session: Session) => {
+    const date = new Date(session.startTime).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+    return session.endTime === null ? `${date} • In progress` : date;
+  };
+
+  return (
+    <>
+      <Sidebar side="left" collapsible="offcanvas">
+        <SidebarHeader className="flex flex-row items-center justify-between border-b">
+          <h3 className="font-semibold text-sm px-2">Sessions</h3>
+          <div className="flex items-center">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isCapturing}
+              className="h-7 w-7 p-0"
+              aria-label="Import session"
+              title="Import a session JSON or a TXT, SRT or VTT transcript"
+            >
+              <UploadSimple size={14} />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onNewSession}
+              disabled={isCapturing}
+              className="h-7 w-7 p-0"
+              aria-label="New session"
+            >
+              <Plus size={14} />
+            </Button>
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={IMPORT_FILE_ACCEPT}
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImportSession(file);
+              // Allow importing the same file again
+              e.target.value = '';
+            }}
+          />
+        </SidebarHeader>
+
+        <SidebarContent>
+          <SidebarGroup>
+            <SidebarGroupContent>
+              {sortedSessions.length === 0 ? (
+                <div className="px-2 py-4 text-xs text-muted-foreground">
+                  No sessions yet. Start recording to create one.
+                </div>
+              ) : (
+                <SidebarMenu>
+                  {sortedSessions.map((session) => (
+                    <SidebarMenuItem key={session.id}>
+                      {editingId === session.id ? (
+                        <form
+                          onSubmit={(e) => {
+                            e.preventDefault();
+                            commitRename();
+                          }}
+                          className="p-1"
+                        >
+                          <Input
+                            autoFocus
+                            value={editingTitle}
+                            onChange={(e) => setEditingTitle(e.target.value)}
+                            onBlur={commitRename}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Escape') setEditingId(null);
+                            }}
+                            className="h-8 text-sm"
+                          />
+                        </form>
+                      ) : (
+                        <>
+                          <SidebarMenuButton
+                            isActive={session.id === activeSessionId}
+                            onClick={() => onOpenSession(session.id)}
+                            disabled={isCapturing && session.id !== activeSessionId}
+                            className="h-auto flex-col items-start gap-0.5"
+                          >
+                            <span className="w-full truncate">{session.title}</span>
+                            <span className="text-xs text-muted-foreground">
+                              {formatSessionDate(session)} • {session.transcript.length} segments
+                            </span>
+                          </SidebarMenuButton>
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <SidebarMenuAction showOnHover aria-label="Session actions">
+                                <DotsThree />
+                              </SidebarMenuAction>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent side="right" align="start">
+                              <DropdownMenuItem onClick={() => startRename(session)}>
+                                <PencilSimple className="mr-2" />
+                                Rename
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                onClick={() => setPendingDelete(session)}
+                                disabled={isCapturing && session.id === activeSessionId}
+                                className="text-destructive"
+                              >
+                                <Trash className="mr-2" />
+                                Delete
+                              </DropdownMenuItem>
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        </>
+                      )}
+                    </SidebarMenuItem>
+                  ))}
+                </SidebarMenu>
+              )}
+            </SidebarGroupContent>
+          </SidebarGroup>
+        </SidebarContent>
+      </Sidebar>
+
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete session?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingDelete?.title}" and its transcript, summaries and answers will be permanently removed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (pendingDelete) onDeleteSession(pendingDelete.id);
+                setPendingDelete(null);
+              }}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -5,7 +5,12 @@ import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { AppSettings } from '@/contexts/types';
+import { VocabularyManager } from '@/components/VocabularyManager';
+import { VoiceProfileManager } from '@/components/VoiceProfileManager';
+import { AppSettings, LLMProviderType, SpeechProviderType } from '@/contexts/types';
+import { createSpeechProvider, isSpeechProviderConfigured } from '@/services/createSpeechProvider';
+import { createLLMProvider, isLLMProviderConfigured } from '@/services/createLLMProvider';
+import { isReasoningModel } from '@/services/TokenBudget';
 import { Gear, Check, X, CloudCheck, Play } from '@phosphor-icons/react';
 import { useState, useEffect } from 'react';
 import { ConnectionStatus } from '@/contexts/types';
@@ -33,11 +38,6 @@ export function SettingsDialog({
   const [testingSTT, setTestingSTT] = useState(false);
   const [testingOpenAI, setTestingOpenAI] = useState(false);
 
-  // Update local settings when props change
-  useEffect(() => {
-    setLocalSettings(settings);
-  }, [settings]);
-
   // Extract region from endpoint URL
   useEffect(() => {
     if (localSettings.stt.endpoint) {
@@ -68,8 +68,10 @@ export function SettingsDialog({
 
   // Test STT connection
   const testSTTConnection = async () => {
-    if (!localSettings.stt.endpoint || !localSettings.stt.subscriptionKey || !localSettings.stt.region) {
-      toast.error('Please enter endpoint URL, subscription key, and region');
+    if (!isSpeechProviderConfigured(localSettings)) {
+      toast.error(localSettings.speechProvider === 'whisper'
+        ? 'Please enter the Whisper server URL'
+        : 'Please enter endpoint URL, subscription key, and region');
       return;
     }
 
@@ -77,23 +79,19 @@ export function SettingsDialog({
     updateSTTStatus('connecting');
 
     try {
-      // Test the Speech-to-Text connection using the correct token endpoint format
-      // Use the region to construct the correct token endpoint: https://<region>.api.cognitive.microsoft.com/sts/v1.0/issuetoken
-      const tokenUrl = `https://${localSettings.stt.region}.api.cognitive.microsoft.com/sts/v1.0/issuetoken`;
-      const response = await fetch(tokenUrl, {
-        method: 'POST',
-        headers: {
-          'Ocp-Apim-Subscription-Key': localSettings.stt.subscriptionKey,
-        },
-      });
-
-      if (response.ok) {
+      // Test the connection through the selected provider
+      const provider = createSpeechProvider(localSettings, () => {});
+      const isConnected = await provider.checkConnection();
+
+      if (isConnected) {
         toast.success('STT connection successful!');
-        updateSTTStatus('connected');
         // Apply settings immediately to ensure they're saved
         onUpdateSettings(localSettings);
+        updateSTTStatus('connected');
       } else {
-        toast.error(`STT connection failed: ${response.status} ${response.statusText}`);
+        toast.error(localSettings.speechProvider === 'webspeech'
+          ? 'The Web Speech API is not supported in this browser'
+          : 'STT connection failed. Please check your settings.');
         updateSTTStatus('error');
       }
     } catch (error) {
@@ -107,8 +105,10 @@ export function SettingsDialog({
 
   // Test OpenAI connection
   const testOpenAIConnection = async () => {
-    if (!localSettings.openai.endpoint || !localSettings.openai.subscriptionKey) {
-      toast.error('Please enter both endpoint URL and subscription key');
+    if (!isLLMProviderConfigured(localSettings)) {
+      toast.error(localSettings.llmProvider === 'azure'
+        ? 'Please enter endpoint URL, subscription key, and deployment name'
+        : 'Please fill in the required provider settings');
       return;
     }
 
@@ -116,26 +116,16 @@ export function SettingsDialog({
     updateOpenAIStatus('connecting');
 
     try {
-      // Test the OpenAI connection with a simple request
-      const response = await fetch(`${localSettings.openai.endpoint}/openai/deployments/${localSettings.openai.deploymentName}/chat/completions?api-version=2024-02-15-preview`, {
-        method: 'POST',
-        headers: {
-          'api-key': localSettings.openai.subscriptionKey,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          messages: [{ role: 'user', content: 'test' }],
-          max_tokens: 5,
-        }),
-      });
-
-      if (response.ok) {
-        toast.success('OpenAI connection successful!');
-        updateOpenAIStatus('connected');
+      // Test the connection through the selected provider with a simple request
+      const isConnected = await createLLMProvider(localSettings).checkConnection();
+
+      if (isConnected) {
+        toast.success('AI provider connection successful!');
         // Apply settings immediately to ensure they're saved
         onUpdateSettings(localSettings);
+        updateOpenAIStatus('connected');
       } else {
-        toast.error(`OpenAI connection failed: ${response.status} ${response.statusText}`);
+        toast.error('AI provider connection failed. Please check your settings.');
         updateOpenAIStatus('error');
       }
     } catch (error) {
@@ -175,19 +165,20 @@ export function SettingsDialog({
           <Gear className="h-5 w-5" />
         </Button>
       </DialogTrigger>
-      <DialogContent className="sm:max-w-[425px]">
+      <DialogContent className="sm:max-w-[425px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Settings</DialogTitle>
           <DialogDescription>
-            Configure your Azure Speech-to-Text and OpenAI services for the AI Conversation Assistant.
+            Configure your speech-to-text and AI providers for the AI Conversation Assistant.
           </DialogDescription>
         </DialogHeader>
 
         <Tabs defaultValue="general" className="mt-4">
-          <TabsList className="grid grid-cols-3 mb-4">
+          <TabsList className="grid grid-cols-4 mb-4">
             <TabsTrigger value="general">General</TabsTrigger>
             <TabsTrigger value="stt">Speech to Text</TabsTrigger>
-            <TabsTrigger value="openai">OpenAI</TabsTrigger>
+            <TabsTrigger value="speakers">Speakers</TabsTrigger>
+            <TabsTrigger value="openai">AI Provider</TabsTrigger>
           </TabsList>
 
           {/* General Settings */}
@@ -215,7 +206,53 @@ export function SettingsDialog({
                 </SelectContent>
               </Select>
               <p className="text-xs text-muted-foreground">
-                Note: System audio capture may be limited by browser capabilities.
+                System audio asks you to share a tab or screen when recording starts. Enable "Share audio" in the browser prompt.
+              </p>
+            </div>
+
+            {localSettings.audio.source === 'system' && (
+              <div className="space-y-2">
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="mix-microphone"
+                    checked={localSettings.audio.mixMicrophone ?? true}
+                    onCheckedChange={(checked) => {
+                      setLocalSettings({
+                        ...localSettings,
+                        audio: {
+                          ...localSettings.audio,
+                          mixMicrophone: checked
+                        }
+                      });
+                    }}
+                  />
+                  <Label htmlFor="mix-microphone">Include Microphone</Label>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Mix your microphone into the shared audio so both sides of a call are transcribed
+                </p>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="record-audio"
+                  checked={localSettings.audio.recordAudio ?? false}
+                  onCheckedChange={(checked) => {
+                    setLocalSettings({
+                      ...localSettings,
+                      audio: {
+                        ...localSettings.audio,
+                        recordAudio: checked
+                      }
+                    });
+                  }}
+                />
+                <Label htmlFor="record-audio">Keep Audio Recording</Label>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Store the captured audio with each session in this browser so passages can be played back from the transcript
               </p>
             </div>
 
@@ -255,131 +292,369 @@ export function SettingsDialog({
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="stt-endpoint">Endpoint URL</Label>
-              <Input
-                id="stt-endpoint"
-                placeholder="https://[region].stt.speech.microsoft.com"
-                value={localSettings.stt.endpoint}
-                onChange={(e) => {
+              <Label htmlFor="speech-provider">Provider</Label>
+              <Select
+                value={localSettings.speechProvider}
+                onValueChange={(value: SpeechProviderType) => {
                   setLocalSettings({
                     ...localSettings,
-                    stt: {
-                      ...localSettings.stt,
-                      endpoint: e.target.value
-                    }
+                    speechProvider: value
                   });
                 }}
-              />
-              <p className="text-xs text-muted-foreground">
-                The region will be auto-detected from the endpoint URL.
-              </p>
+              >
+                <SelectTrigger id="speech-provider">
+                  <SelectValue placeholder="Select speech provider" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="azure">Azure Speech</SelectItem>
+                  <SelectItem value="webspeech">Browser (Web Speech API)</SelectItem>
+                  <SelectItem value="whisper">Local Whisper Server</SelectItem>
+                </SelectContent>
+              </Select>
             </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="stt-key">Subscription Key</Label>
-              <Input
-                id="stt-key"
-                type="password"
-                placeholder="Enter your Azure Speech subscription key"
-                value={localSettings.stt.subscriptionKey}
-                onChange={(e) => {
-                  setLocalSettings({
-                    ...localSettings,
-                    stt: {
-                      ...localSettings.stt,
-                      subscriptionKey: e.target.value
-                    }
-                  });
-                }}
-              />
-            </div>
+            {localSettings.speechProvider === 'azure' && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="stt-endpoint">Endpoint URL</Label>
+                  <Input
+                    id="stt-endpoint"
+                    placeholder="https://[region].stt.speech.microsoft.com"
+                    value={localSettings.stt.endpoint}
+                    onChange={(e) => {
+                      setLocalSettings({
+                        ...localSettings,
+                        stt: {
+                          ...localSettings.stt,
+                          endpoint: e.target.value
+                        }
+                      });
+                    }}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    The region will be auto-detected from the endpoint URL.
+                  </p>
+                </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="region">Region</Label>
-              <Input
-                id="region"
-                placeholder="e.g., eastus, westus"
-                value={localSettings.stt.region}
-                disabled
-              />
-            </div>
+                <div className="space-y-2">
+                  <Label htmlFor="stt-key">Subscription Key</Label>
+                  <Input
+                    id="stt-key"
+                    type="password"
+                    placeholder="Enter your Azure Speech subscription key"
+                    value={localSettings.stt.subscriptionKey}
+                    onChange={(e) => {
+                      setLocalSettings({
+                        ...localSettings,
+                        stt: {
+                          ...localSettings.stt,
+                          subscriptionKey: e.target.value
+                        }
+                      });
+                    }}
+                  />
+                </div>
 
-            {/* Language Detection Settings */}
-            <div className="space-y-2">
-              <div className="flex items-center space-x-2">
-                <Switch
-                  id="enable-language-detection"
-                  checked={localSettings.stt.enableLanguageDetection || false}
-                  onCheckedChange={(checked) => {
+                <div className="space-y-2">
+                  <Label htmlFor="region">Region</Label>
+                  <Input
+                    id="region"
+                    placeholder="e.g., eastus, westus"
+                    value={localSettings.stt.region}
+                    disabled
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="stt-endpoint-id">Custom Model Endpoint ID (optional)</Label>
+                  <Input
+                    id="stt-endpoint-id"
+                    placeholder="Deployment ID from Speech Studio"
+                    value={localSettings.stt.endpointId ?? ''}
+                    onChange={(e) => {
+                      setLocalSettings({
+                        ...localSettings,
+                        stt: {
+                          ...localSettings.stt,
+                          endpointId: e.target.value
+                        }
+                      });
+                    }}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Recognize with a Custom Speech model instead of the base model
+                  </p>
+                </div>
+
+                <VocabularyManager
+                  profiles={localSettings.stt.vocabularyProfiles ?? []}
+                  activeProfileId={localSettings.stt.activeVocabularyProfileId ?? null}
+                  onChange={(vocabularyProfiles, activeVocabularyProfileId) => {
                     setLocalSettings({
                       ...localSettings,
                       stt: {
                         ...localSettings.stt,
-                        enableLanguageDetection: checked,
-                        candidateLanguages: checked ? ['en-US', 'es-ES', 'fr-FR', 'de-DE'] : undefined
+                        vocabularyProfiles,
+                        activeVocabularyProfileId
                       }
                     });
                   }}
                 />
-                <Label htmlFor="enable-language-detection">Enable Language Auto-Detection</Label>
-              </div>
-              <p className="text-xs text-muted-foreground">
-                Automatically detect spoken language from a list of candidates
-              </p>
-            </div>
 
-            {localSettings.stt.enableLanguageDetection && (
-              <div className="space-y-2">
-                <Label>Candidate Languages</Label>
-                <div className="grid grid-cols-2 gap-2">
-                  {[
-                    { code: 'en-US', name: 'English (US)' },
-                    { code: 'es-ES', name: 'Spanish (Spain)' },
-                    { code: 'fr-FR', name: 'French (France)' },
-                    { code: 'de-DE', name: 'German' },
-                    { code: 'it-IT', name: 'Italian' },
-                    { code: 'pt-BR', name: 'Portuguese (Brazil)' },
-                    { code: 'ja-JP', name: 'Japanese' },
-                    { code: 'ko-KR', name: 'Korean' },
-                    { code: 'zh-CN', name: 'Chinese (Simplified)' },
-                    { code: 'nl-NL', name: 'Dutch' },
-                    { code: 'ru-RU', name: 'Russian' },
-                    { code: 'ar-SA', name: 'Arabic' }
-                  ].map((lang) => (
-                    <div key={lang.code} className="flex items-center space-x-2">
+                {/* Speaker Diarization Settings */}
+                <div className="space-y-2">
+                  <div className="flex items-center space-x-2">
+                    <Switch
+                      id="enable-speaker-diarization"
+                      checked={localSettings.stt.enableSpeakerDiarization ?? true}
+                      onCheckedChange={(checked) => {
+                        setLocalSettings({
+                          ...localSettings,
+                          stt: {
+                            ...localSettings.stt,
+                            enableSpeakerDiarization: checked
+                          }
+                        });
+                      }}
+                    />
+                    <Label htmlFor="enable-speaker-diarization">Identify Speakers</Label>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Use conversation transcription to label who said what
+                  </p>
+                </div>
+
+                {/* Language Detection Settings */}
+                <div className="space-y-2">
+                  <div className="flex items-center space-x-2">
+                    <Switch
+                      id="enable-language-detection"
+                      checked={localSettings.stt.enableLanguageDetection || false}
+                      onCheckedChange={(checked) => {
+                        setLocalSettings({
+                          ...localSettings,
+                          stt: {
+                            ...localSettings.stt,
+                            enableLanguageDetection: checked,
+                            candidateLanguages: checked ? ['en-US', 'es-ES', 'fr-FR', 'de-DE'] : undefined
+                          }
+                        });
+                      }}
+                    />
+                    <Label htmlFor="enable-language-detection">Enable Language Auto-Detection</Label>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Automatically detect spoken language from a list of candidates
+                  </p>
+                </div>
+
+                {localSettings.stt.enableLanguageDetection && (
+                  <div className="space-y-2">
+                    <Label>Candidate Languages</Label>
+                    <div className="grid grid-cols-2 gap-2">
+                      {[
+                        { code: 'en-US', name: 'English (US)' },
+                        { code: 'es-ES', name: 'Spanish (Spain)' },
+                        { code: 'fr-FR', name: 'French (France)' },
+                        { code: 'de-DE', name: 'German' },
+                        { code: 'it-IT', name: 'Italian' },
+                        { code: 'pt-BR', name: 'Portuguese (Brazil)' },
+                        { code: 'ja-JP', name: 'Japanese' },
+                        { code: 'ko-KR', name: 'Korean' },
+                        { code: 'zh-CN', name: 'Chinese (Simplified)' },
+                        { code: 'nl-NL', name: 'Dutch' },
+                        { code: 'ru-RU', name: 'Russian' },
+                        { code: 'ar-SA', name: 'Arabic' }
+                      ].map((lang) => (
+                        <div key={lang.code} className="flex items-center space-x-2">
+                          <Switch
+                            id={`lang-${lang.code}`}
+                            checked={localSettings.stt.candidateLanguages?.includes(lang.code) || false}
+                            onCheckedChange={(checked) => {
+                              const currentLanguages = localSettings.stt.candidateLanguages || [];
+                              const newLanguages = checked
+                                ? [...currentLanguages, lang.code]
+                                : currentLanguages.filter(l => l !== lang.code);
+                              setLocalSettings({
+                                ...localSettings,
+                                stt: {
+                                  ...localSettings.stt,
+                                  candidateLanguages: newLanguages
+                                }
+                              });
+                            }}
+                          />
+                          <Label htmlFor={`lang-${lang.code}`} className="text-xs">
+                            {lang.name}
+                          </Label>
+                        </div>
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Select which languages to detect. More languages may reduce accuracy.
+                    </p>
+                  </div>
+                )}
+
+                {localSettings.stt.enableLanguageDetection && (
+                  <div className="space-y-2">
+                    <div className="flex items-center space-x-2">
                       <Switch
-                        id={`lang-${lang.code}`}
-                        checked={localSettings.stt.candidateLanguages?.includes(lang.code) || false}
+                        id="continuous-language-identification"
+                        checked={localSettings.stt.continuousLanguageIdentification || false}
                         onCheckedChange={(checked) => {
-                          const currentLanguages = localSettings.stt.candidateLanguages || [];
-                          const newLanguages = checked
-                            ? [...currentLanguages, lang.code]
-                            : currentLanguages.filter(l => l !== lang.code);
                           setLocalSettings({
                             ...localSettings,
                             stt: {
                               ...localSettings.stt,
-                              candidateLanguages: newLanguages
+                              continuousLanguageIdentification: checked
                             }
                           });
                         }}
                       />
-                      <Label htmlFor={`lang-${lang.code}`} className="text-xs">
-                        {lang.name}
-                      </Label>
+                      <Label htmlFor="continuous-language-identification">Continuous Identification</Label>
                     </div>
-                  ))}
-                </div>
+                    <p className="text-xs text-muted-foreground">
+                      Keep detecting the language throughout the session for conversations that switch languages. Up to 4 languages are used at start, up to 10 in continuous mode.
+                    </p>
+                  </div>
+                )}
+              </>
+            )}
+
+            {localSettings.speechProvider === 'webspeech' && (
+              <div className="space-y-2">
+                <Label htmlFor="webspeech-language">Language</Label>
+                <Input
+                  id="webspeech-language"
+                  placeholder="e.g., en-US"
+                  value={localSettings.webSpeech.language}
+                  onChange={(e) => {
+                    setLocalSettings({
+                      ...localSettings,
+                      webSpeech: {
+                        ...localSettings.webSpeech,
+                        language: e.target.value
+                      }
+                    });
+                  }}
+                />
                 <p className="text-xs text-muted-foreground">
-                  Select which languages to detect. More languages may reduce accuracy.
+                  No credentials needed. Only the microphone is supported, and Chrome and Edge process audio on their vendor's servers.
                 </p>
               </div>
             )}
 
+            {localSettings.speechProvider === 'whisper' && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="whisper-endpoint">Server URL</Label>
+                  <Input
+                    id="whisper-endpoint"
+                    placeholder="http://localhost:8000/v1"
+                    value={localSettings.whisper.endpoint}
+                    onChange={(e) => {
+                      setLocalSettings({
+                        ...localSettings,
+                        whisper: {
+                          ...localSettings.whisper,
+                          endpoint: e.target.value
+                        }
+                      });
+                    }}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Any server with an OpenAI-compatible /audio/transcriptions endpoint, such as whisper.cpp or faster-whisper-server.
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="whisper-key">API Key (optional)</Label>
+                  <Input
+                    id="whisper-key"
+                    type="password"
+                    placeholder="Leave empty for local servers"
+                    value={localSettings.whisper.apiKey}
+                    onChange={(e) => {
+                      setLocalSettings({
+                        ...localSettings,
+                        whisper: {
+                          ...localSettings.whisper,
+                          apiKey: e.target.value
+                        }
+                      });
+                    }}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="whisper-model">Model</Label>
+                  <Input
+                    id="whisper-model"
+                    placeholder="e.g., whisper-1, Systran/faster-whisper-small"
+                    value={localSettings.whisper.model}
+                    onChange={(e) => {
+                      setLocalSettings({
+                        ...localSettings,
+                        whisper: {
+                          ...localSettings.whisper,
+                          model: e.target.value
+                        }
+                      });
+                    }}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="whisper-language">Language (optional)</Label>
+                  <Input
+                    id="whisper-language"
+                    placeholder="Leave empty to auto-detect"
+                    value={localSettings.whisper.language}
+                    onChange={(e) => {
+                      setLocalSettings({
+                        ...localSettings,
+                        whisper: {
+                          ...localSettings.whisper,
+                          language: e.target.value
+                        }
+                      });
+                    }}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="whisper-window">Window Length (seconds)</Label>
+                  <Input
+                    id="whisper-window"
+                    type="number"
+                    min="2"
+                    max="60"
+                    value={localSettings.whisper.windowSeconds}
+                    onChange={(e) => {
+                      const value = parseInt(e.target.value);
+                      if (!isNaN(value) && value > 0) {
+                        setLocalSettings({
+                          ...localSettings,
+                          whisper: {
+                            ...localSettings.whisper,
+                            windowSeconds: value
+                          }
+                        });
+                      }
+                    }}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Audio is sent in windows of this length. Shorter windows appear sooner but give the model less context.
+                  </p>
+                </div>
+              </>
+            )}
+
             <div className="flex justify-end">
               <Button
                 onClick={testSTTConnection}
-                disabled={testingSTT || !localSettings.stt.endpoint || !localSettings.stt.subscriptionKey}
+                disabled={testingSTT || !isSpeechProviderConfigured(localSettings)}
                 variant="outline"
                 size="sm"
               >
@@ -398,6 +673,14 @@ export function SettingsDialog({
             </div>
           </TabsContent>
 
+          {/* Speaker Identification Settings */}
+          <TabsContent value="speakers" className="space-y-4">
+            <VoiceProfileManager
+              config={localSettings.speakerId}
+              onChange={(speakerId) => setLocalSettings((current) => ({ ...current, speakerId }))}
+            />
+          </TabsContent>
+
           {/* OpenAI Settings */}
           <TabsContent value="openai" className="space-y-4">
             <div className="flex items-center gap-2">
@@ -407,64 +690,287 @@ export function SettingsDialog({
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="openai-endpoint">Endpoint URL</Label>
-              <Input
-                id="openai-endpoint"
-                placeholder="https://[resource-name].openai.azure.com"
-                value={localSettings.openai.endpoint}
-                onChange={(e) => {
+              <Label htmlFor="llm-provider">Provider</Label>
+              <Select
+                value={localSettings.llmProvider}
+                onValueChange={(value: LLMProviderType) => {
                   setLocalSettings({
                     ...localSettings,
-                    openai: {
-                      ...localSettings.openai,
-                      endpoint: e.target.value
-                    }
+                    llmProvider: value
                   });
                 }}
-              />
+              >
+                <SelectTrigger id="llm-provider">
+                  <SelectValue placeholder="Select AI provider" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="azure">Azure OpenAI</SelectItem>
+                  <SelectItem value="openai">OpenAI</SelectItem>
+                  <SelectItem value="local">Local (Ollama, llama.cpp)</SelectItem>
+                </SelectContent>
+              </Select>
             </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="openai-key">Subscription Key</Label>
-              <Input
-                id="openai-key"
-                type="password"
-                placeholder="Enter your Azure OpenAI subscription key"
-                value={localSettings.openai.subscriptionKey}
-                onChange={(e) => {
-                  setLocalSettings({
-                    ...localSettings,
-                    openai: {
-                      ...localSettings.openai,
-                      subscriptionKey: e.target.value
-                    }
-                  });
-                }}
-              />
-            </div>
+            {localSettings.llmProvider === 'azure' && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="openai-endpoint">Endpoint URL</Label>
+                  <Input
+                    id="openai-endpoint"
+                    placeholder="https://[resource-name].openai.azure.com"
+                    value={localSettings.openai.endpoint}
+                    onChange={(e) => {
+                      setLocalSettings({
+                        ...localSettings,
+                        openai: {
+                          ...localSettings.openai,
+                          endpoint: e.target.value
+                        }
+                      });
+                    }}
+                  />
+                </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="openai-deployment">Deployment Name</Label>
-              <Input
-                id="openai-deployment"
-                placeholder="e.g., gpt-4"
-                value={localSettings.openai.deploymentName}
-                onChange={(e) => {
-                  setLocalSettings({
-                    ...localSettings,
-                    openai: {
-                      ...localSettings.openai,
-                      deploymentName: e.target.value
-                    }
-                  });
-                }}
-              />
-            </div>
+                <div className="space-y-2">
+                  <Label htmlFor="openai-key">Subscription Key</Label>
+                  <Input
+                    id="openai-key"
+                    type="password"
+                    placeholder="Enter your Azure OpenAI subscription key"
+                    value={localSettings.openai.subscriptionKey}
+                    onChange={(e) => {
+                      setLocalSettings({
+                        ...localSettings,
+                        openai: {
+                          ...localSettings.openai,
+                          subscriptionKey: e.target.value
+                        }
+                      });
+                    }}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="openai-deployment">Deployment Name</Label>
+                  <Input
+                    id="openai-deployment"
+                    placeholder="e.g., gpt-4"
+                    value={localSettings.openai.deploymentName}
+                    onChange={(e) => {
+                      setLocalSettings({
+                        ...localSettings,
+                        openai: {
+                          ...localSettings.openai,
+                          deploymentName: e.target.value
+                        }
+                      });
+                    }}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="openai-context-window">Context Window (tokens)</Label>
+                  <Input
+                    id="openai-context-window"
+                    type="number"
+                    min="1"
+                    placeholder="Auto"
+                    value={localSettings.openai.contextWindow ?? ''}
+                    onChange={(e) => {
+                      const value = parseInt(e.target.value, 10);
+                      setLocalSettings({
+                        ...localSettings,
+                        openai: {
+                          ...localSettings.openai,
+                          contextWindow: value > 0 ? value : undefined
+                        }
+                      });
+                    }}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Long transcripts are abridged to fit. Leave empty to use the size known for the model the deployment name refers to.
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex items-center space-x-2">
+                    <Switch
+                      id="openai-reasoning-model"
+                      checked={localSettings.openai.reasoningModel ?? isReasoningModel(localSettings.openai.deploymentName)}
+                      onCheckedChange={(checked) => {
+                        setLocalSettings({
+                          ...localSettings,
+                          openai: {
+                            ...localSettings.openai,
+                            reasoningModel: checked
+                          }
+                        });
+                      }}
+                    />
+                    <Label htmlFor="openai-reasoning-model">Reasoning Model</Label>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Turn on for o-series and GPT-5 deployments, which take different request parameters. Guessed from the deployment name until set.
+                  </p>
+                </div>
+              </>
+            )}
+
+            {localSettings.llmProvider === 'openai' && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="openai-platform-key">API Key</Label>
+                  <Input
+                    id="openai-platform-key"
+                    type="password"
+                    placeholder="Enter your OpenAI API key"
+                    value={localSettings.openaiPlatform.apiKey}
+                    onChange={(e) => {
+                      setLocalSettings({
+                        ...localSettings,
+                        openaiPlatform: {
+                          ...localSettings.openaiPlatform,
+                          apiKey: e.target.value
+                        }
+                      });
+                    }}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="openai-platform-model">Model</Label>
+                  <Input
+                    id="openai-platform-model"
+                    placeholder="e.g., gpt-4o-mini"
+                    value={localSettings.openaiPlatform.model}
+                    onChange={(e) => {
+                      setLocalSettings({
+                        ...localSettings,
+                        openaiPlatform: {
+                          ...localSettings.openaiPlatform,
+                          model: e.target.value
+                        }
+                      });
+                    }}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="openai-platform-context-window">Context Window (tokens)</Label>
+                  <Input
+                    id="openai-platform-context-window"
+                    type="number"
+                    min="1"
+                    placeholder="Auto"
+                    value={localSettings.openaiPlatform.contextWindow ?? ''}
+                    onChange={(e) => {
+                      const value = parseInt(e.target.value, 10);
+                      setLocalSettings({
+                        ...localSettings,
+                        openaiPlatform: {
+                          ...localSettings.openaiPlatform,
+                          contextWindow: value > 0 ? value : undefined
+                        }
+                      });
+                    }}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Long transcripts are abridged to fit. Leave empty to use the size known for the model.
+                  </p>
+                </div>
+              </>
+            )}
+
+            {localSettings.llmProvider === 'local' && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="local-llm-endpoint">Server URL</Label>
+                  <Input
+                    id="local-llm-endpoint"
+                    placeholder="http://localhost:11434/v1"
+                    value={localSettings.localLLM.endpoint}
+                    onChange={(e) => {
+                      setLocalSettings({
+                        ...localSettings,
+                        localLLM: {
+                          ...localSettings.localLLM,
+                          endpoint: e.target.value
+                        }
+                      });
+                    }}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Any OpenAI-compatible /chat/completions server. Conversations stay on this machine when the server is local.
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="local-llm-model">Model</Label>
+                  <Input
+                    id="local-llm-model"
+                    placeholder="e.g., llama3.1, qwen2.5"
+                    value={localSettings.localLLM.model}
+                    onChange={(e) => {
+                      setLocalSettings({
+                        ...localSettings,
+                        localLLM: {
+                          ...localSettings.localLLM,
+                          model: e.target.value
+                        }
+                      });
+                    }}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="local-llm-key">API Key (optional)</Label>
+                  <Input
+                    id="local-llm-key"
+                    type="password"
+                    placeholder="Leave empty for local servers"
+                    value={localSettings.localLLM.apiKey}
+                    onChange={(e) => {
+                      setLocalSettings({
+                        ...localSettings,
+                        localLLM: {
+                          ...localSettings.localLLM,
+                          apiKey: e.target.value
+                        }
+                      });
+                    }}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="local-llm-context-window">Context Window (tokens)</Label>
+                  <Input
+                    id="local-llm-context-window"
+                    type="number"
+                    min="1"
+                    placeholder="Auto"
+                    value={localSettings.localLLM.contextWindow ?? ''}
+                    onChange={(e) => {
+                      const value = parseInt(e.target.value, 10);
+                      setLocalSettings({
+                        ...localSettings,
+                        localLLM: {
+                          ...localSettings.localLLM,
+                          contextWindow: value > 0 ? value : undefined
+                        }
+                      });
+                    }}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Long transcripts are abridged to fit. Match the server's setting, e.g. Ollama's num_ctx; leave empty to assume 8192.
+                  </p>
+                </div>
+              </>
+            )}
 
             <div className="flex justify-end">
               <Button
                 onClick={testOpenAIConnection}
-                disabled={testingOpenAI || !localSettings.openai.endpoint || !localSettings.openai.subscriptionKey || !localSettings.openai.deploymentName}
+                disabled={testingOpenAI || !isLLMProviderConfigured(localSettings)}
                 variant="outline"
                 size="sm"
               >
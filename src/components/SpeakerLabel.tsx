@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { SessionSpeaker } from '@/contexts/types';
+import { SPEAKER_COLORS } from '@/lib/speakers';
+
+interface SpeakerLabelProps {
+  speaker: SessionSpeaker;
+  // Leave out to show the label without the editor
+  onUpdate?: (speakerId: string, changes: Partial<Omit<SessionSpeaker, 'id'>>) => void;
+}
+
+// Colored speaker name that opens an editor for the speaker's name, role and color when clicked
+export function SpeakerLabel({ speaker, onUpdate }: SpeakerLabelProps) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState(speaker.name);
+  const [role, setRole] = useState(speaker.role ?? '');
+
+  const label = (
+    <span className="font-medium text-sm" style={{ color: speaker.color }}>
+      {speaker.name}
+      {speaker.role && <span className="font-normal text-muted-foreground"> · {speaker.role}</span>}
+    </span>
+  );
+
+  if (!onUpdate) return label;
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (isOpen) {
+      setName(speaker.name);
+      setRole(speaker.role ?? '');
+    }
+    setOpen(isOpen);
+  };
+
+  const save = () => {
+    onUpdate(speaker.id, { name, role: role.trim() || undefined });
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="hover:underline"
+          title={`Edit ${speaker.id}`}
+          // Clicking a segment seeks the recording; the label only opens the editor
+          onClick={(e) => e.stopPropagation()}
+        >
+          {label}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72" onClick={(e) => e.stopPropagation()}>
+        <form
+          className="space-y-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            save();
+          }}
+        >
+          <div className="space-y-1">
+            <Label htmlFor="speaker-name">Name</Label>
+            <Input id="speaker-name" value={name} placeholder={speaker.id} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="speaker-role">Role</Label>
+            <Input
+              id="speaker-role"
+              value={role}
+              placeholder="e.g., Product manager"
+              onChange={(e) => setRole(e.target.value)}
+            />
+          </div>
+          <div className="flex flex-wrap gap-2" role="radiogroup" aria-label="Color">
+            {SPEAKER_COLORS.map((color) => (
+              <button
+                key={color}
+                type="button"
+                role="radio"
+                aria-checked={color === speaker.color}
+                aria-label={color}
+                className={`h-6 w-6 rounded-full border-2 ${color === speaker.color ? 'border-foreground' : 'border-transparent'}`}
+                style={{ backgroundColor: color }}
+                onClick={() => onUpdate(speaker.id, { color })}
+              />
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Summaries, minutes and answers that mention {speaker.name} are updated to the new name.
+          </p>
+          <div className="flex justify-end">
+            <Button type="submit" size="sm">Save</Button>
+          </div>
+        </form>
+      </PopoverContent>
+    </Popover>
+  );
+}
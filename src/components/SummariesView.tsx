@@ -3,6 +3,8 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { SummaryChunk } from '@/contexts/types';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ContextUsageLabel } from '@/components/ContextUsageLabel';
 import { CaretDown } from '@phosphor-icons/react';
 import { useState } from 'react';
 
@@ -10,6 +12,22 @@ interface SummariesViewProps {
   summaries: SummaryChunk[];
 }
 
+// Bulleted list of structured summary details, left out when empty
+function SummarySection({ title, items }: { title: string; items: React.ReactNode[] }) {
+  if (items.length === 0) return null;
+
+  return (
+    <div className="space-y-1">
+      <h4 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">{title}</h4>
+      <ul className="list-disc pl-5 space-y-1 text-sm">
+        {items.map((item, index) => (
+          <li key={index}>{item}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
 export function SummariesView({ summaries }: SummariesViewProps) {
   const [openSummaryId, setOpenSummaryId] = useState<string | null>(null);
 
@@ -49,15 +67,48 @@ export function SummariesView({ summaries }: SummariesViewProps) {
                       variant="ghost"
                       className="flex justify-between w-full p-4 h-auto"
                     >
-                      <span>{formatTimeRange(summary.startTime, summary.endTime)}</span>
+                      <span>
+                        {formatTimeRange(summary.startTime, summary.endTime)}
+                        <span className="ml-2 text-xs text-muted-foreground">
+                          {summary.relatedTranscriptIds.length} segments
+                        </span>
+                        {summary.contextUsage && (
+                          <span className="ml-2">
+                            <ContextUsageLabel usage={summary.contextUsage} />
+                          </span>
+                        )}
+                      </span>
                       <CaretDown
                         className={`transition-transform ${openSummaryId === summary.id ? 'rotate-180' : ''}`}
                       />
                     </Button>
                   </CollapsibleTrigger>
                   <CollapsibleContent className="px-4 pb-4">
-                    <div className="pt-2 border-t">
+                    <div className="pt-2 border-t space-y-3">
+                      {summary.topics && summary.topics.length > 0 && (
+                        <div className="flex flex-wrap gap-1">
+                          {summary.topics.map((topic) => (
+                            <Badge key={topic} variant="secondary">{topic}</Badge>
+                          ))}
+                        </div>
+                      )}
                       <p>{summary.summary}</p>
+                      <SummarySection title="Decisions" items={summary.decisions ?? []} />
+                      <SummarySection
+                        title="Action Items"
+                        items={(summary.actionItems ?? []).map((item) => (
+                          <>
+                            {item.text}
+                            {(item.owner || item.due) && (
+                              <span className="text-muted-foreground">
+                                {item.owner && ` — ${item.owner}`}
+                                {item.due && ` (due ${item.due})`}
+                              </span>
+                            )}
+                          </>
+                        ))}
+                      />
+                      <SummarySection title="Risks" items={summary.risks ?? []} />
                     </div>
                   </CollapsibleContent>
                 </Collapsible>
@@ -1,39 +1,173 @@
+import { useEffect, useRef, useState } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { TranscriptSegment } from '@/contexts/types';
+import { SpeakerLabel } from '@/components/SpeakerLabel';
+import { PendingSegment, RecordingPause, SessionSpeaker, TranscriptSegment } from '@/contexts/types';
+import { toRecordedOffset } from '@/lib/sessions';
+
+// Words scored below this are marked as possibly misrecognized
+const LOW_CONFIDENCE = 0.6;
 
 interface TranscriptViewProps {
   segments: TranscriptSegment[];
+  // Utterance still being recognized, rendered after the final segments
+  pendingSegment?: PendingSegment | null;
+  // Recorded audio of the session; segments are placed on it by their offset from startTime,
+  // less the paused stretches before them
+  recording?: { url: string; startTime: number; pauses?: RecordingPause[] } | null;
+  // Display names and colors of the session's speakers
+  speakers?: SessionSpeaker[];
+  onUpdateSpeaker?: (speakerId: string, changes: Partial<Omit<SessionSpeaker, 'id'>>) => void;
+  // Segments to mark and scroll to, such as the sources an answer cites
+  highlightedSegmentIds?: string[];
 }
 
-export function TranscriptView({ segments }: TranscriptViewProps) {
+export function TranscriptView({
+  segments,
+  pendingSegment,
+  recording,
+  speakers = [],
+  onUpdateSpeaker,
+  highlightedSegmentIds = []
+}: TranscriptViewProps) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const segmentRefs = useRef(new Map<string, HTMLDivElement>());
+  const [playbackMs, setPlaybackMs] = useState<number | null>(null);
+
+  // Bring the first highlighted segment into view whenever the highlight changes
+  useEffect(() => {
+    const first = highlightedSegmentIds.map((id) => segmentRefs.current.get(id)).find(Boolean);
+    first?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [highlightedSegmentIds]);
+
+  const getOffset = (segment: TranscriptSegment) =>
+    recording ? toRecordedOffset(segment.timestamp, recording.startTime, recording.pauses) : 0;
+
+  // The segment being played is the last one that starts at or before the playback position
+  const playingSegmentId = recording && playbackMs !== null
+    ? segments.filter((segment) => getOffset(segment) <= playbackMs).pop()?.id
+    : undefined;
+
+  // Speakers the session has not heard a final segment from yet show their provider id
+  const getSpeaker = (speakerId: string): SessionSpeaker =>
+    speakers.find((speaker) => speaker.id === speakerId) ?? { id: speakerId, name: speakerId, color: 'inherit' };
+
+  const seekTo = (segment: TranscriptSegment) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    audio.currentTime = getOffset(segment) / 1000;
+    audio.play().catch(console.error);
+  };
+
   return (
     <Card className="flex-1 overflow-hidden">
       <CardContent className="p-0">
-        <ScrollArea className="h-[calc(100vh-12rem)] w-full">
+        {recording && (
+          <div className="p-3 border-b">
+            <audio
+              ref={audioRef}
+              src={recording.url}
+              controls
+              className="w-full h-8"
+              onTimeUpdate={(e) => setPlaybackMs(e.currentTarget.currentTime * 1000)}
+              onEnded={() => setPlaybackMs(null)}
+            />
+          </div>
+        )}
+        <ScrollArea className={`${recording ? 'h-[calc(100vh-16rem)]' : 'h-[calc(100vh-12rem)]'} w-full`}>
           <div className="p-4 space-y-4">
-            {segments.length === 0 ? (
+            {segments.length === 0 && !pendingSegment ? (
               <div className="flex items-center justify-center h-32 text-muted-foreground">
                 No transcript data yet. Start recording to see the conversation.
               </div>
             ) : (
-              segments.map((segment) => (
-                <div key={segment.id} className="space-y-1">
+              segments.map((segment) => segment.gap ? (
+                <div key={segment.id} className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <div className="h-px flex-1 bg-border" />
+                  <span>
+                    {new Date(segment.timestamp).toLocaleTimeString()} · {segment.text}
+                  </span>
+                  <div className="h-px flex-1 bg-border" />
+                </div>
+              ) : (
+                <div
+                  key={segment.id}
+                  ref={(element) => {
+                    if (element) segmentRefs.current.set(segment.id, element);
+                    else segmentRefs.current.delete(segment.id);
+                  }}
+                  onClick={recording ? () => seekTo(segment) : undefined}
+                  className={`space-y-1 rounded-md -mx-2 px-2 py-1 ${recording ? 'cursor-pointer hover:bg-muted/50' : ''} ${
+                    segment.id === playingSegmentId ? 'bg-primary/10' : ''
+                  } ${highlightedSegmentIds.includes(segment.id) ? 'ring-2 ring-amber-500/60 bg-amber-500/10' : ''}`}
+                >
                   <div className="flex items-center gap-2">
-                    <span className="font-medium text-sm">{segment.speakerId}</span>
+                    {segment.speakerId && (
+                      <SpeakerLabel speaker={getSpeaker(segment.speakerId)} onUpdate={onUpdateSpeaker} />
+                    )}
                     <span className="text-xs text-muted-foreground">
                       {new Date(segment.timestamp).toLocaleTimeString()}
                     </span>
+                    {segment.language && (
+                      <span className="text-xs text-muted-foreground uppercase">
+                        {segment.language}
+                      </span>
+                    )}
                   </div>
                   <div className={segment.isQuestion ? 'font-medium' : ''}>
-                    {segment.text}
+                    <SegmentText segment={segment} />
                   </div>
                 </div>
               ))
             )}
+            {pendingSegment && (
+              <div className="space-y-1 text-muted-foreground" aria-live="polite">
+                <div className="flex items-center gap-2">
+                  {pendingSegment.speakerId && (
+                    <SpeakerLabel speaker={getSpeaker(pendingSegment.speakerId)} />
+                  )}
+                  <span className="text-xs">
+                    {new Date(pendingSegment.timestamp).toLocaleTimeString()}
+                  </span>
+                </div>
+                <div className="italic">{pendingSegment.text}</div>
+              </div>
+            )}
           </div>
         </ScrollArea>
       </CardContent>
     </Card>
   );
 }
+
+// Segment text with low-confidence words underlined. Words without their own score take the segment's.
+function SegmentText({ segment }: { segment: TranscriptSegment }) {
+  const words = segment.words;
+  if (!words || words.map((word) => word.text).join(' ') !== segment.text.trim()) {
+    return <>{segment.text}</>;
+  }
+
+  return (
+    <>
+      {words.map((word, index) => {
+        const confidence = word.confidence ?? segment.confidence;
+        return (
+          <span key={index}>
+            {index > 0 && ' '}
+            {confidence < LOW_CONFIDENCE ? (
+              <span
+                className="underline decoration-dotted decoration-amber-500 underline-offset-4"
+                title={`Confidence ${Math.round(confidence * 100)}%`}
+              >
+                {word.text}
+              </span>
+            ) : (
+              word.text
+            )}
+          </span>
+        );
+      })}
+    </>
+  );
+}
@@ -0,0 +1,93 @@
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { VocabularyProfile } from '@/types';
+import { generateId } from '@/lib/helpers';
+import { Plus, Trash } from '@phosphor-icons/react';
+
+// Select value for recognizing without a phrase list
+const NO_PROFILE = 'none';
+
+interface VocabularyManagerProps {
+  profiles: VocabularyProfile[];
+  activeProfileId: string | null;
+  onChange: (profiles: VocabularyProfile[], activeProfileId: string | null) => void;
+}
+
+// Create, pick and edit the phrase lists used to bias recognition. The selected profile is the one applied.
+export function VocabularyManager({ profiles, activeProfileId, onChange }: VocabularyManagerProps) {
+  const activeProfile = profiles.find((profile) => profile.id === activeProfileId) ?? null;
+
+  const addProfile = () => {
+    const profile: VocabularyProfile = { id: generateId(), name: `Vocabulary ${profiles.length + 1}`, phrases: [] };
+    onChange([...profiles, profile], profile.id);
+  };
+
+  const updateProfile = (changes: Partial<VocabularyProfile>) => {
+    if (!activeProfile) return;
+    onChange(
+      profiles.map((profile) => (profile.id === activeProfile.id ? { ...profile, ...changes } : profile)),
+      activeProfile.id
+    );
+  };
+
+  const deleteProfile = () => {
+    if (!activeProfile) return;
+    onChange(profiles.filter((profile) => profile.id !== activeProfile.id), null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="vocabulary-profile">Custom Vocabulary</Label>
+      <div className="flex gap-2">
+        <Select
+          value={activeProfile?.id ?? NO_PROFILE}
+          onValueChange={(value) => onChange(profiles, value === NO_PROFILE ? null : value)}
+        >
+          <SelectTrigger id="vocabulary-profile" className="flex-1">
+            <SelectValue placeholder="Select vocabulary" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_PROFILE}>None</SelectItem>
+            {profiles.map((profile) => (
+              <SelectItem key={profile.id} value={profile.id}>
+                {profile.name || 'Untitled'}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="icon" onClick={addProfile} aria-label="New vocabulary">
+          <Plus className="h-4 w-4" />
+        </Button>
+        {activeProfile && (
+          <Button variant="outline" size="icon" onClick={deleteProfile} aria-label="Delete vocabulary">
+            <Trash className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      {activeProfile && (
+        <>
+          <Input
+            aria-label="Vocabulary name"
+            placeholder="e.g., Product team"
+            value={activeProfile.name}
+            onChange={(e) => updateProfile({ name: e.target.value })}
+          />
+          <Textarea
+            aria-label="Phrases"
+            placeholder={'One word or phrase per line, e.g.\nContoso Insights\nKPI'}
+            rows={5}
+            value={activeProfile.phrases.join('\n')}
+            onChange={(e) => updateProfile({ phrases: e.target.value.split('\n') })}
+          />
+        </>
+      )}
+      <p className="text-xs text-muted-foreground">
+        Product names, acronyms and other terms the recognizer should expect. The selected list is applied each time recording starts.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+import { useEffect, useRef, useState } from 'react';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SpeakerEmbeddingBackend, SpeakerIdConfig } from '@/types';
+import { recordVoiceSample, SPEAKER_SAMPLE_RATE } from '@/services/AudioSampleBuffer';
+import { SpeakerIdentifier } from '@/services/SpeakerIdentifier';
+import { Microphone, Stop, Trash } from '@phosphor-icons/react';
+import { toast } from 'sonner';
+
+// Length of the sample recorded for each person
+const ENROLL_SECONDS = 10;
+
+interface VoiceProfileManagerProps {
+  config: SpeakerIdConfig;
+  onChange: (config: SpeakerIdConfig) => void;
+}
+
+// Enroll the voices of recurring participants and choose how live segments are matched against them
+export function VoiceProfileManager({ config, onChange }: VoiceProfileManagerProps) {
+  const [name, setName] = useState('');
+  const [recordingSince, setRecordingSince] = useState<number | null>(null);
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Enrollment finishes after the recording, by when other settings may have been changed
+  const configRef = useRef(config);
+  configRef.current = config;
+
+  // Advance the progress bar while a sample is recorded
+  useEffect(() => {
+    if (recordingSince === null) return;
+    const timer = setInterval(() => setElapsedMs(Date.now() - recordingSince), 200);
+    return () => clearInterval(timer);
+  }, [recordingSince]);
+
+  // Stop a recording in progress when the dialog closes
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const update = (changes: Partial<SpeakerIdConfig>) => onChange({ ...config, ...changes });
+
+  const enroll = async () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setElapsedMs(0);
+    setRecordingSince(Date.now());
+
+    try {
+      const samples = await recordVoiceSample(ENROLL_SECONDS * 1000, controller.signal);
+      const profile = await new SpeakerIdentifier(config).enroll(trimmed, samples, SPEAKER_SAMPLE_RATE);
+      // Enrolling a name again replaces the earlier sample
+      const current = configRef.current;
+      onChange({ ...current, profiles: [...current.profiles.filter((p) => p.name !== profile.name), profile] });
+      setName('');
+      toast.success(`Enrolled ${profile.name}`);
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error('Error enrolling voice:', error);
+        toast.error(error instanceof Error ? error.message : 'Failed to enroll voice');
+      }
+    } finally {
+      controllerRef.current = null;
+      setRecordingSince(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <div className="flex items-center space-x-2">
+          <Switch
+            id="speaker-id-enabled"
+            checked={config.enabled}
+            onCheckedChange={(checked) => update({ enabled: checked })}
+          />
+          <Label htmlFor="speaker-id-enabled">Identify Enrolled Voices</Label>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Segments spoken by an enrolled person are labelled with their name while recording
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="speaker-id-backend">Voice Matching</Label>
+        <Select
+          value={config.backend}
+          onValueChange={(value: SpeakerEmbeddingBackend) => update({ backend: value })}
+        >
+          <SelectTrigger id="speaker-id-backend">
+            <SelectValue placeholder="Select voice matching" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="local">In the browser (basic)</SelectItem>
+            <SelectItem value="http">Speaker recognition service</SelectItem>
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          {config.backend === 'local'
+            ? 'Compares voice characteristics in this browser. Good enough for a few distinct voices in a quiet room.'
+            : 'Posts each voice sample as WAV and expects { "embedding": [...] } back, e.g. from a SpeechBrain or pyannote server.'}
+        </p>
+      </div>
+
+      {config.backend === 'http' && (
+        <>
+          <div className="space-y-2">
+            <Label htmlFor="speaker-id-endpoint">Endpoint URL</Label>
+            <Input
+              id="speaker-id-endpoint"
+              placeholder="http://localhost:8010/embed"
+              value={config.endpoint}
+              onChange={(e) => update({ endpoint: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="speaker-id-key">API Key (optional)</Label>
+            <Input
+              id="speaker-id-key"
+              type="password"
+              value={config.apiKey}
+              onChange={(e) => update({ apiKey: e.target.value })}
+            />
+          </div>
+        </>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="speaker-id-threshold">Match Threshold</Label>
+        <Input
+          id="speaker-id-threshold"
+          type="number"
+          min="0"
+          max="1"
+          step="0.01"
+          value={config.threshold}
+          onChange={(e) => {
+            const value = parseFloat(e.target.value);
+            if (!isNaN(value) && value >= 0 && value <= 1) {
+              update({ threshold: value });
+            }
+          }}
+        />
+        <p className="text-xs text-muted-foreground">
+          Similarity a segment needs to be attributed to someone. Around 0.95 suits in-browser matching; services usually need less.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Enrolled Voices</Label>
+        {config.profiles.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No voices enrolled yet.</p>
+        ) : (
+          <ul className="space-y-1">
+            {config.profiles.map((profile) => (
+              <li key={profile.id} className="flex items-center gap-2 text-sm">
+                <span className="flex-1 truncate">{profile.name}</span>
+                {profile.backend !== config.backend && (
+                  <span className="text-xs text-muted-foreground">Enroll again to use</span>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => update({ profiles: config.profiles.filter((p) => p.id !== profile.id) })}
+                  aria-label={`Delete ${profile.name}`}
+                >
+                  <Trash className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="speaker-id-name">Enroll a Voice</Label>
+        <div className="flex gap-2">
+          <Input
+            id="speaker-id-name"
+            placeholder="Name, e.g. Anna"
+            value={name}
+            disabled={recordingSince !== null}
+            onChange={(e) => setName(e.target.value)}
+          />
+          {recordingSince === null ? (
+            <Button variant="outline" onClick={enroll} disabled={!name.trim()}>
+              <Microphone className="h-4 w-4 mr-2" />
+              Record
+            </Button>
+          ) : (
+            <Button variant="outline" onClick={() => controllerRef.current?.abort()}>
+              <Stop className="h-4 w-4 mr-2" />
+              Cancel
+            </Button>
+          )}
+        </div>
+        {recordingSince !== null && (
+          <Progress value={Math.min(100, (elapsedMs / (ENROLL_SECONDS * 1000)) * 100)} />
+        )}
+        <p className="text-xs text-muted-foreground">
+          {recordingSince !== null
+            ? 'Keep talking naturally until the bar fills.'
+            : `The person speaks for ${ENROLL_SECONDS} seconds into the microphone. Only the voice profile is stored, in this browser.`}
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -1,16 +1,46 @@
-import { createContext, useContext, ReactNode, useState, useEffect, useRef } from 'react';
-import { useKV } from '../hooks/useKV';
+import { createContext, useContext, ReactNode, useState, useEffect, useMemo, useRef } from 'react';
+import { useKV, handleStorageError } from '../hooks/useKV';
+import { useKVCollection } from '../hooks/useKVCollection';
 import {
   AppSettings,
   defaultSettings,
   TranscriptSegment,
+  PendingSegment,
   SummaryChunk,
   QAPair,
   ConnectionStatus,
-  RecordingState
+  RecordingState,
+  Session,
+  SessionSpeaker,
+  MeetingMinutes,
+  FileTranscriptionState
 } from './types';
-import { AzureSpeechService } from '../services/AzureSpeechService';
+import { RecognitionStatusEvent, SpeechProvider } from '../services/SpeechProvider';
+import {
+  createSpeechProvider,
+  updateSpeechProviderConfig,
+  isSpeechProviderConfigured
+} from '../services/createSpeechProvider';
 import { AzureOpenAIService } from '../services/AzureOpenAIService';
+import { createLLMProvider, isLLMProviderConfigured } from '../services/createLLMProvider';
+import {
+  createGapSegment,
+  createSession,
+  getSegmentSpan,
+  getThreadId,
+  getUnsummarizedSegments,
+  groupSegmentsByInterval,
+  isSessionEmpty,
+  takeLegacySession
+} from '../lib/sessions';
+import { importSessionFile } from '../lib/import';
+import { getSessionSpeakers, isSpeakerNamed, updateSessionSpeaker, withSpeakerNames } from '../lib/speakers';
+import { resolveCitations } from '../lib/citations';
+import { recordingStore } from '../lib/storage';
+import { generateId } from '../lib/helpers';
+import { AudioRecorder } from '../services/AudioRecorder';
+import { AudioSampleBuffer, SPEAKER_SAMPLE_RATE } from '../services/AudioSampleBuffer';
+import { SpeakerIdentifier } from '../services/SpeakerIdentifier';
 import { toast } from 'sonner';
 
 interface AppContextType {
@@ -21,9 +51,28 @@ interface AppContextType {
   // Recording state
   recordingState: RecordingState;
   toggleRecording: () => void;
-
-  // Transcript data
+  pauseRecording: () => Promise<void>;
+  resumeRecording: () => Promise<void>;
+
+  // Audio file transcription
+  fileTranscription: FileTranscriptionState | null;
+  transcribeAudioFile: (file: File) => Promise<void>;
+  cancelFileTranscription: () => void;
+
+  // Sessions
+  sessions: Session[];
+  activeSessionId: string | null;
+  newSession: () => void;
+  openSession: (id: string) => void;
+  renameSession: (id: string, title: string) => void;
+  deleteSession: (id: string) => void;
+  importSession: (file: File) => Promise<void>;
+  updateSpeaker: (sessionId: string, speakerId: string, changes: Partial<Omit<SessionSpeaker, 'id'>>) => void;
+
+  // Transcript data of the active session
   transcript: TranscriptSegment[];
+  // Utterance still being recognized, shown until its final segment arrives
+  pendingSegment: PendingSegment | null;
   addTranscriptSegment: (segment: TranscriptSegment) => void;
   clearTranscript: () => void;
 
@@ -31,10 +80,19 @@ interface AppContextType {
   summaries: SummaryChunk[];
   addSummary: (summary: SummaryChunk) => void;
 
+  // Meeting minutes of the active session
+  minutes: MeetingMinutes | null;
+  isGeneratingMinutes: boolean;
+  generateMinutes: () => Promise<void>;
+
   // Q&A data
   qaList: QAPair[];
   addQA: (qa: QAPair) => void;
   askQuestion: (question: string) => Promise<void>;
+  activeThreadId: string | null;
+  continueThread: (threadId: string) => void;
+  startNewThread: () => void;
+  stopAnswer: (id: string) => void;
 
   // Service connection status
   sttStatus: ConnectionStatus;
@@ -45,53 +103,309 @@ interface AppContextType {
 
 const AppContext = createContext<AppContextType | undefined>(undefined);
 
+// Reconnection notices replace each other instead of stacking up
+const RECOVERY_TOAST_ID = 'speech-recovery';
+
 export function AppProvider({ children }: { children: ReactNode }) {
   // Persist settings with useKV
-  const [settings, setSettings] = useKV<AppSettings>('ai-assistant-settings', defaultSettings);
+  const [storedSettings, setSettings, , settingsLoaded] = useKV<AppSettings>('ai-assistant-settings', defaultSettings);
+
+  // Settings saved by older versions lack newer sections, so fill them from the defaults. The merged
+  // object keeps its identity until the settings change, so the settings dialog keeps unsaved edits.
+  const settings: AppSettings = useMemo(() => ({ ...defaultSettings, ...storedSettings }), [storedSettings]);
 
   // In-memory state
   const [recordingState, setRecordingState] = useState<RecordingState>({
     isRecording: false,
+    isPaused: false,
     startTime: null,
     duration: 0
   });
 
-  const [transcript, setTranscript] = useState<TranscriptSegment[]>([]);
-  const [summaries, setSummaries] = useKV<SummaryChunk[]>('ai-assistant-summaries', []);
-  const [qaList, setQAList] = useKV<QAPair[]>('ai-assistant-qa', []);
+  // Sessions are persisted one record each; transcript, summaries and Q&A are read from the active one
+  const [sessions, setSessions, sessionsLoaded] = useKVCollection<Session>('sessions');
+  const [activeSessionId, setActiveSessionId] = useKV<string | null>('ai-assistant-active-session', null);
+
+  // Speech callbacks and timers outlive renders, so they read sessions through refs
+  const sessionsRef = useRef<Session[]>(sessions);
+  sessionsRef.current = sessions;
+  const activeSessionIdRef = useRef<string | null>(activeSessionId);
+
+  // The stored active session arrives after the first render
+  useEffect(() => {
+    activeSessionIdRef.current = activeSessionId;
+  }, [activeSessionId]);
+
+  const activeSession = sessions.find((session) => session.id === activeSessionId) ?? null;
+  const transcript = activeSession?.transcript ?? [];
+  const summaries = activeSession?.summaries ?? [];
+  // Text of answers still streaming, by Q&A id. It is kept out of the sessions so that each token
+  // does not rewrite the session record; the answer is stored once it is complete.
+  const [streamingAnswers, setStreamingAnswers] = useState<Record<string, string>>({});
+  const qaList = (activeSession?.qaList ?? []).map((qa) =>
+    qa.id in streamingAnswers ? { ...qa, answer: streamingAnswers[qa.id] } : qa
+  );
+  const minutes = activeSession?.minutes ?? null;
+
+  // Interim hypothesis of the live recording
+  const [pendingSegment, setPendingSegment] = useState<PendingSegment | null>(null);
+
+  // Sessions whose minutes are being generated
+  const [minutesSessionIds, setMinutesSessionIds] = useState<string[]>([]);
+  const isGeneratingMinutes = activeSessionId !== null && minutesSessionIds.includes(activeSessionId);
 
-  // Service connection statuses - persist in localStorage
-  const [sttStatus, setSTTStatus] = useKV<ConnectionStatus>('ai-assistant-stt-status', 'disconnected');
-  const [openaiStatus, setOpenAIStatus] = useKV<ConnectionStatus>('ai-assistant-openai-status', 'disconnected');
+  // Service connection statuses - persist in storage
+  const [sttStatus, setSTTStatus, , sttStatusLoaded] = useKV<ConnectionStatus>('ai-assistant-stt-status', 'disconnected');
+  const [openaiStatus, setOpenAIStatus, , openaiStatusLoaded] = useKV<ConnectionStatus>('ai-assistant-openai-status', 'disconnected');
 
   // Service refs
-  const speechServiceRef = useRef<AzureSpeechService | null>(null);
+  const speechServiceRef = useRef<SpeechProvider | null>(null);
   const openaiServiceRef = useRef<AzureOpenAIService | null>(null);
 
-  // Last summary time
-  const lastSummaryTimeRef = useRef<number | null>(null);
+  // Local recording of the captured audio, when enabled
+  const audioRecorderRef = useRef<AudioRecorder | null>(null);
+
+  // Recent captured audio and the enrolled voices it is matched against, while speaker identification runs
+  const speakerAudioRef = useRef<AudioSampleBuffer | null>(null);
+  const speakerIdentifierRef = useRef<SpeakerIdentifier | null>(null);
+
+  // Audio file transcription in progress
+  const [fileTranscription, setFileTranscription] = useState<FileTranscriptionState | null>(null);
+  const fileTranscriptionControllerRef = useRef<AbortController | null>(null);
 
-  // Chunk timer
+  // Q&A thread manual questions are added to; null starts a new one
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+
+  // Abort controllers for answers that are still streaming, keyed by Q&A id
+  const answerControllersRef = useRef<Map<string, AbortController>>(new Map());
+
+  // Segments with a summary request in flight, so overlapping requests never cover them twice
+  const summarizingIdsRef = useRef<Set<string>>(new Set());
+
+  // Chunk timer, and when the next chunk is due. Pausing holds the countdown.
   const chunkTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const chunkDueRef = useRef<number>(0);
+  const chunkRemainingRef = useRef<number>(0);
+
+  // When the running recording was paused
+  const pausedAtRef = useRef<number | null>(null);
+
+  // Apply a change to one session
+  const updateSession = (id: string, update: (session: Session) => Session) => {
+    setSessions((prev) => prev.map((session) => (session.id === id ? update(session) : session)));
+  };
+
+  // Make a session active
+  const activateSession = (id: string | null) => {
+    activeSessionIdRef.current = id;
+    setActiveSessionId(id);
+    setActiveThreadId(null);
+  };
+
+  // Return the active session id, creating a session first if there is none
+  const ensureActiveSession = (): string => {
+    if (activeSessionIdRef.current) {
+      return activeSessionIdRef.current;
+    }
+
+    const session = createSession();
+    setSessions((prev) => [...prev, session]);
+    activateSession(session.id);
+    return session.id;
+  };
+
+  // Start a fresh, empty session
+  const newSession = () => {
+    if (recordingState.isRecording) {
+      toast.error('Stop recording before starting a new session');
+      return;
+    }
+    if (fileTranscription) {
+      toast.error('Wait for the audio file transcription to finish');
+      return;
+    }
+
+    // Reuse the active session if nothing has been captured in it yet
+    if (activeSession && isSessionEmpty(activeSession) && activeSession.endTime === null) {
+      return;
+    }
+
+    const session = createSession();
+    setSessions((prev) => [...prev, session]);
+    activateSession(session.id);
+  };
+
+  // Reopen a past session
+  const openSession = (id: string) => {
+    if (recordingState.isRecording && id !== activeSessionId) {
+      toast.error('Stop recording before switching sessions');
+      return;
+    }
+    if (fileTranscription && id !== activeSessionId) {
+      toast.error('Wait for the audio file transcription to finish');
+      return;
+    }
+
+    activateSession(id);
+  };
+
+  // Rename a session
+  const renameSession = (id: string, title: string) => {
+    const trimmed = title.trim();
+    if (!trimmed) return;
+
+    updateSession(id, (session) => ({ ...session, title: trimmed }));
+  };
+
+  // Rename, recolor or give a role to a speaker of a session. Earlier summaries, minutes and
+  // answers are rewritten to use the new name.
+  const updateSpeaker = (sessionId: string, speakerId: string, changes: Partial<Omit<SessionSpeaker, 'id'>>) => {
+    updateSession(sessionId, (session) => updateSessionSpeaker(session, speakerId, changes));
+  };
+
+  // Delete a session and everything captured in it
+  const deleteSession = (id: string) => {
+    if (recordingState.isRecording && id === activeSessionId) {
+      toast.error('Stop recording before deleting the current session');
+      return;
+    }
+    if (fileTranscription && id === activeSessionId) {
+      toast.error('Wait for the audio file transcription to finish');
+      return;
+    }
+
+    setSessions((prev) => prev.filter((session) => session.id !== id));
+    if (id === activeSessionId) {
+      activateSession(null);
+    }
+
+    recordingStore.delete(id).catch((error) => console.error('Error deleting session audio:', error));
+  };
+
+  // Import an exported session or a transcript from another tool, then summarize it chunk by chunk
+  // as if it had been recorded
+  const importSession = async (file: File) => {
+    if (recordingState.isRecording) {
+      toast.error('Stop recording before importing a session');
+      return;
+    }
+    if (fileTranscription) {
+      toast.error('Wait for the audio file transcription to finish');
+      return;
+    }
+
+    let session: Session;
+    try {
+      session = importSessionFile(file.name, await file.text());
+    } catch (error) {
+      console.error('Error importing session:', error);
+      toast.error(error instanceof Error ? `Import failed: ${error.message}` : 'Import failed');
+      return;
+    }
+
+    setSessions((prev) => [...prev, session]);
+    activateSession(session.id);
+    toast.success(`Imported "${session.title}" with ${session.transcript.length} segments`);
+
+    if (!openaiServiceRef.current) {
+      toast.info('Connect an AI provider to summarize the imported session');
+      return;
+    }
+
+    await summarizeInChunks(session.id, getUnsummarizedSegments(session));
+  };
+
+  // Transcribe a recorded audio file into a new session through the speech provider, then
+  // summarize it chunk by chunk like a live recording
+  const transcribeAudioFile = async (file: File) => {
+    const provider = speechServiceRef.current;
+    if (recordingState.isRecording || fileTranscription) {
+      toast.error('Wait for the current recording or transcription to finish');
+      return;
+    }
+    if (!provider) {
+      toast.error('Speech service not initialized');
+      return;
+    }
+    if (!provider.capabilities.fileTranscription) {
+      toast.error('The selected speech provider cannot transcribe audio files');
+      return;
+    }
+
+    const session = createSession(file.name.replace(/\.[^.]+$/, ''));
+    setSessions((prev) => [...prev, session]);
+    activateSession(session.id);
+
+    const controller = new AbortController();
+    fileTranscriptionControllerRef.current = controller;
+    setFileTranscription({ fileName: file.name, progress: 0 });
+
+    // Segments go straight into the file's session. Questions in the recording are not answered
+    // and voices are not matched, since both only make sense for live audio.
+    const segments: TranscriptSegment[] = [];
+    provider.setSegmentHandler((segment) => {
+      segments.push(segment);
+      updateSession(session.id, (current) => ({ ...current, transcript: [...current.transcript, segment] }));
+    });
+
+    try {
+      await provider.transcribeFile(file, {
+        startTime: session.startTime,
+        onProgress: (progress) => setFileTranscription({ fileName: file.name, progress }),
+        signal: controller.signal
+      });
+
+      const endTime = segments.length > 0 ? segments[segments.length - 1].timestamp : session.startTime;
+      updateSession(session.id, (current) => ({ ...current, endTime }));
+
+      if (controller.signal.aborted) {
+        toast.info('Transcription canceled');
+      } else {
+        toast.success(`Transcribed ${segments.length} segments from ${file.name}`);
+      }
+    } catch (error) {
+      console.error('Error transcribing audio file:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to transcribe audio file');
+      updateSession(session.id, (current) => ({ ...current, endTime: Date.now() }));
+    } finally {
+      provider.setSegmentHandler(handleTranscriptSegment);
+      fileTranscriptionControllerRef.current = null;
+      setFileTranscription(null);
+    }
+
+    await summarizeInChunks(session.id, segments);
+  };
+
+  // Stop an audio file transcription; what was transcribed so far is kept
+  const cancelFileTranscription = () => {
+    fileTranscriptionControllerRef.current?.abort();
+  };
 
   // Update settings
   const updateSettings = (newSettings: Partial<AppSettings>) => {
-    setSettings((current) => ({ ...current, ...newSettings }));
+    // A different provider has to be checked again before it can be used
+    if (newSettings.speechProvider && newSettings.speechProvider !== settings.speechProvider) {
+      setSTTStatus('disconnected');
+    }
+    if (newSettings.llmProvider && newSettings.llmProvider !== settings.llmProvider) {
+      setOpenAIStatus('disconnected');
+    }
+    setSettings((current) => ({ ...defaultSettings, ...current, ...newSettings }));
   };
 
   // Initialize services when settings and connection status change
   useEffect(() => {
     // Initialize or update Speech service
     if (sttStatus === 'connected') {
-      if (!speechServiceRef.current) {
-        // Create new instance
-        speechServiceRef.current = new AzureSpeechService(
-          settings.stt,
-          handleTranscriptSegment
-        );
+      if (!speechServiceRef.current || speechServiceRef.current.type !== settings.speechProvider) {
+        // Create new instance for the selected provider
+        speechServiceRef.current?.stopRecognition().catch(console.error);
+        speechServiceRef.current = createSpeechProvider(settings, handleTranscriptSegment);
+        speechServiceRef.current.setInterimHandler(setPendingSegment);
+        speechServiceRef.current.setStatusHandler(handleRecognitionStatus);
       } else {
         // Update existing instance
-        speechServiceRef.current.updateConfig(settings.stt);
+        updateSpeechProviderConfig(speechServiceRef.current, settings);
       }
     }
 
@@ -99,32 +413,22 @@ export function AppProvider({ children }: { children: ReactNode }) {
     if (openaiStatus === 'connected') {
       if (!openaiServiceRef.current) {
         // Create new instance
-        openaiServiceRef.current = new AzureOpenAIService(settings.openai);
+        openaiServiceRef.current = new AzureOpenAIService(createLLMProvider(settings));
       } else {
         // Update existing instance
-        openaiServiceRef.current.updateConfig(settings.openai);
+        openaiServiceRef.current.setProvider(createLLMProvider(settings));
       }
     }
-  }, [sttStatus, openaiStatus, settings.stt, settings.openai]);
+  }, [sttStatus, openaiStatus, settings.speechProvider, settings.stt, settings.webSpeech, settings.whisper, settings.llmProvider, settings.openai, settings.openaiPlatform, settings.localLLM]);
 
   // Handle transcript segment
   const handleTranscriptSegment = async (segment: TranscriptSegment) => {
     console.log('Received transcript segment:', segment);
 
-    // Add segment to transcript
+    // Add segment to transcript; clearing the hypothesis in the same update swaps one for the other
+    setPendingSegment(null);
     addTranscriptSegment(segment);
-
-    // Check if it's time to create a summary
-    const now = Date.now();
-    const chunkIntervalMs = settings.audio.chunkIntervalMinutes * 60 * 1000;
-
-    if (
-      lastSummaryTimeRef.current === null ||
-      (now - lastSummaryTimeRef.current >= chunkIntervalMs)
-    ) {
-      createSummary();
-      lastSummaryTimeRef.current = now;
-    }
+    identifySpeaker(segment);
 
     // Check if it's a question and handle it
     if (segment.isQuestion && openaiServiceRef.current) {
@@ -132,179 +436,551 @@ export function AppProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  // Create summary from current transcript
-  const createSummary = async () => {
-    if (!openaiServiceRef.current || transcript.length === 0) return;
+  // Name a live segment after the enrolled voice it matches. The segment is shown right away and
+  // renamed once the match comes back. A speaker the provider told apart is named as a whole, so
+  // all of its segments read the same; a name it already has is kept.
+  const identifySpeaker = async (segment: TranscriptSegment) => {
+    const buffer = speakerAudioRef.current;
+    const identifier = speakerIdentifierRef.current;
+    const sessionId = activeSessionIdRef.current;
+    if (!buffer || !identifier || !sessionId) return;
+
+    const providerId = segment.speakerId;
+    const session = sessionsRef.current.find((s) => s.id === sessionId);
+    if (providerId && session && isSpeakerNamed(session, providerId)) return;
 
+    const { start, end } = getSegmentSpan(segment);
     try {
-      const summary = await openaiServiceRef.current.generateSummary(transcript);
+      const match = await identifier.identify(buffer.slice(start, end), SPEAKER_SAMPLE_RATE);
+      if (!match) return;
+
+      updateSession(sessionId, (session) => {
+        if (providerId) {
+          return isSpeakerNamed(session, providerId)
+            ? session
+            : updateSessionSpeaker(session, providerId, { name: match.profile.name });
+        }
+        return {
+          ...session,
+          transcript: session.transcript.map((seg) =>
+            seg.id === segment.id ? { ...seg, speakerId: match.profile.name } : seg
+          )
+        };
+      });
+    } catch (error) {
+      console.error('Error identifying speaker:', error);
+    }
+  };
+
+  // Tell the user about outages of a running recognition and mark lost audio in the transcript
+  const handleRecognitionStatus = (event: RecognitionStatusEvent) => {
+    switch (event.type) {
+      case 'reconnecting':
+        setPendingSegment(null);
+        toast.warning(`Speech recognition interrupted, reconnecting in ${Math.round(event.delayMs / 1000)}s (attempt ${event.attempt})`, {
+          id: RECOVERY_TOAST_ID
+        });
+        break;
+      case 'recovered':
+        addTranscriptSegment(createGapSegment(event.gapStart, event.gapEnd));
+        toast.success('Speech recognition reconnected', { id: RECOVERY_TOAST_ID });
+        break;
+      case 'failed':
+        setSTTStatus('error');
+        toast.error(`Speech recognition stopped and recording has ended: ${event.error}`, {
+          id: RECOVERY_TOAST_ID
+        });
+        stopRecording();
+        break;
+      case 'sourceEnded':
+        toast.info('Audio sharing was stopped, so the recording has ended', { id: RECOVERY_TOAST_ID });
+        stopRecording();
+        break;
+    }
+  };
+
+  // Summarize the segments of a session that no earlier chunk covers, adding one chunk to the timeline
+  const createSummary = async (sessionId: string | null = activeSessionIdRef.current): Promise<SummaryChunk | null> => {
+    if (!sessionId) return null;
+
+    const session = sessionsRef.current.find((s) => s.id === sessionId);
+    if (!session) return null;
+
+    return summarizeSegments(sessionId, getUnsummarizedSegments(session));
+  };
+
+  // Summarize the given segments of a session into one chunk
+  const summarizeSegments = async (sessionId: string, candidates: TranscriptSegment[]): Promise<SummaryChunk | null> => {
+    if (!openaiServiceRef.current) return null;
+
+    const segments = candidates.filter((seg) => !summarizingIdsRef.current.has(seg.id));
+    if (segments.length === 0) return null;
+
+    segments.forEach((seg) => summarizingIdsRef.current.add(seg.id));
+
+    try {
+      const session = sessionsRef.current.find((s) => s.id === sessionId);
+      const speakers = session ? getSessionSpeakers(session) : [];
+      const content = await openaiServiceRef.current.generateSummary(withSpeakerNames(segments, speakers));
 
       const summaryChunk: SummaryChunk = {
         id: Date.now().toString(),
-        startTime: transcript[0].timestamp,
-        endTime: transcript[transcript.length - 1].timestamp,
-        summary,
-        relatedTranscriptIds: transcript.map(seg => seg.id)
+        startTime: segments[0].timestamp,
+        endTime: segments[segments.length - 1].timestamp,
+        ...content,
+        relatedTranscriptIds: segments.map(seg => seg.id)
       };
 
-      addSummary(summaryChunk);
+      // The summary belongs to the session it was requested for, even if another one is opened meanwhile
+      updateSession(sessionId, (current) => ({
+        ...current,
+        summaries: [...current.summaries, summaryChunk]
+      }));
 
       // Show toast
       toast.success('Created a new summary');
 
+      return summaryChunk;
+
     } catch (error) {
       console.error('Error creating summary:', error);
       toast.error('Failed to create summary');
+      return null;
+    } finally {
+      segments.forEach((seg) => summarizingIdsRef.current.delete(seg.id));
+    }
+  };
+
+  // Summarize segments that arrived all at once, such as an import or a file transcription, in chunks
+  // of the configured interval, then write the minutes
+  const summarizeInChunks = async (sessionId: string, segments: TranscriptSegment[]) => {
+    if (!openaiServiceRef.current || segments.length === 0) return;
+
+    const chunkIntervalMs = settings.audio.chunkIntervalMinutes * 60 * 1000;
+    const newSummaries: SummaryChunk[] = [];
+    for (const group of groupSegmentsByInterval(segments, chunkIntervalMs)) {
+      const summary = await summarizeSegments(sessionId, group);
+      if (summary) newSummaries.push(summary);
+    }
+
+    if (newSummaries.length > 0) {
+      await createMinutes(sessionId, newSummaries);
+    }
+  };
+
+  // Build meeting minutes from a session's summary chunks. Chunks that may not have reached
+  // the session state yet can be passed in.
+  const createMinutes = async (
+    sessionId: string | null = activeSessionIdRef.current,
+    pendingSummaries: SummaryChunk[] = []
+  ) => {
+    if (!openaiServiceRef.current || !sessionId) return;
+
+    const session = sessionsRef.current.find((s) => s.id === sessionId);
+    if (!session) return;
+
+    const knownIds = new Set(session.summaries.map((summary) => summary.id));
+    const chunks = [...session.summaries, ...pendingSummaries.filter((summary) => !knownIds.has(summary.id))];
+    if (chunks.length === 0) return;
+
+    setMinutesSessionIds((prev) => [...prev, sessionId]);
+
+    try {
+      const sessionMinutes = await openaiServiceRef.current.generateMeetingMinutes(chunks);
+      updateSession(sessionId, (current) => ({ ...current, minutes: sessionMinutes }));
+      toast.success('Meeting minutes are ready');
+    } catch (error) {
+      console.error('Error creating meeting minutes:', error);
+      toast.error('Failed to create meeting minutes');
+    } finally {
+      setMinutesSessionIds((prev) => prev.filter((id) => id !== sessionId));
+    }
+  };
+
+  // Create or refresh the minutes of the active session on request
+  const generateMinutes = async () => {
+    if (!openaiServiceRef.current) {
+      toast.error('OpenAI service not connected');
+      return;
     }
+
+    // Cover anything said after the last chunk first
+    const pendingSummary = await createSummary();
+    await createMinutes(activeSessionIdRef.current, pendingSummary ? [pendingSummary] : []);
   };
 
   // Toggle recording
   const toggleRecording = async () => {
     if (recordingState.isRecording) {
-      // Stop recording
-      setRecordingState({
-        isRecording: false,
-        startTime: null,
-        duration: recordingState.startTime ? Date.now() - recordingState.startTime : 0
-      });
+      await stopRecording();
+    } else {
+      await startRecording();
+    }
+  };
 
-      // Stop speech recognition
-      if (speechServiceRef.current) {
-        try {
-          await speechServiceRef.current.stopRecognition();
+  // Stop recording, close the session and summarize what is left. Also called from speech
+  // callbacks, so it reads state through refs.
+  const stopRecording = async () => {
+    setRecordingState((current) => ({
+      isRecording: false,
+      isPaused: false,
+      startTime: null,
+      duration: current.duration + (current.startTime ? Date.now() - current.startTime : 0)
+    }));
+
+    // Close the session, ending a pause it was stopped in
+    const sessionId = activeSessionIdRef.current;
+    if (sessionId) {
+      endPause(sessionId);
+      updateSession(sessionId, (session) => ({ ...session, endTime: Date.now() }));
+    }
 
-          // Create final summary
-          if (transcript.length > 0) {
-            createSummary();
-          }
+    // Stop the audio recording before recognition releases the capture
+    if (sessionId) {
+      saveAudioRecording(sessionId);
+    }
 
-          // Clear chunk timer
-          if (chunkTimerRef.current) {
-            clearInterval(chunkTimerRef.current);
-            chunkTimerRef.current = null;
-          }
+    // Stop speech recognition
+    if (speechServiceRef.current) {
+      try {
+        await speechServiceRef.current.stopRecognition();
+        setPendingSegment(null);
 
-          toast.success('Recording stopped');
+        // Summarize whatever the last chunk did not cover, then write the minutes
+        createSummary(sessionId).then((finalSummary) =>
+          createMinutes(sessionId, finalSummary ? [finalSummary] : [])
+        );
 
-        } catch (error) {
-          console.error('Error stopping recording:', error);
-          toast.error('Error stopping recording');
-        }
+        clearChunkTimer();
+
+        toast.success('Recording stopped');
+
+      } catch (error) {
+        console.error('Error stopping recording:', error);
+        toast.error('Error stopping recording');
       }
-    } else {
-      // Start recording
-      setRecordingState({
-        isRecording: true,
-        startTime: Date.now(),
-        duration: 0
-      });
+    }
 
-      // Reset transcript for new session
-      setTranscript([]);
+    stopSpeakerIdentification();
+  };
 
-      // Reset last summary time
-      lastSummaryTimeRef.current = Date.now();
+  // Start recording and speech recognition
+  const startRecording = async () => {
+    setRecordingState({
+      isRecording: true,
+      isPaused: false,
+      startTime: Date.now(),
+      duration: 0
+    });
 
-      // Start speech recognition
-      if (speechServiceRef.current) {
-        try {
-          await speechServiceRef.current.startRecognition(settings.audio.source);
+    // Record into a new session, or the active one if nothing was captured in it yet
+    if (activeSession && isSessionEmpty(activeSession)) {
+      updateSession(activeSession.id, (session) => ({ ...session, startTime: Date.now(), endTime: null }));
+      activeSessionIdRef.current = activeSession.id;
+    } else {
+      const session = createSession();
+      setSessions((prev) => [...prev, session]);
+      activateSession(session.id);
+    }
 
-          // Set up chunk timer
-          const chunkIntervalMs = settings.audio.chunkIntervalMinutes * 60 * 1000;
-          chunkTimerRef.current = setInterval(() => {
-            if (transcript.length > 0) {
-              createSummary();
-            }
-          }, chunkIntervalMs);
+    // Start speech recognition
+    if (speechServiceRef.current) {
+      try {
+        await speechServiceRef.current.startRecognition(settings.audio.source, {
+          mixMicrophone: settings.audio.mixMicrophone ?? true
+        });
 
-          toast.success('Recording started');
+        if (settings.audio.recordAudio) {
+          startAudioRecording(speechServiceRef.current.getMediaStream());
+        }
 
-        } catch (error) {
-          console.error('Error starting recording:', error);
-          toast.error('Error starting recording');
-
-          // Reset recording state
-          setRecordingState({
-            isRecording: false,
-            startTime: null,
-            duration: 0
-          });
+        if (settings.speakerId.enabled && settings.speakerId.profiles.length > 0) {
+          startSpeakerIdentification(speechServiceRef.current.getMediaStream());
         }
-      } else {
-        toast.error('Speech service not initialized');
+
+        startChunkTimer(settings.audio.chunkIntervalMinutes * 60 * 1000);
+
+        toast.success('Recording started');
+
+      } catch (error) {
+        console.error('Error starting recording:', error);
+        toast.error('Error starting recording');
 
         // Reset recording state
         setRecordingState({
           isRecording: false,
+          isPaused: false,
           startTime: null,
           duration: 0
         });
       }
+    } else {
+      toast.error('Speech service not initialized');
+
+      // Reset recording state
+      setRecordingState({
+        isRecording: false,
+        isPaused: false,
+        startTime: null,
+        duration: 0
+      });
+    }
+  };
+
+  // Go off the record: stop sending audio and hold the chunk countdown, keeping the session open
+  const pauseRecording = async () => {
+    const provider = speechServiceRef.current;
+    if (!recordingState.isRecording || recordingState.isPaused || !provider) return;
+
+    try {
+      await provider.pauseRecognition();
+    } catch (error) {
+      console.error('Error pausing recording:', error);
+      toast.error('Error pausing recording');
+      return;
+    }
+
+    audioRecorderRef.current?.pause();
+    chunkRemainingRef.current = clearChunkTimer();
+    pausedAtRef.current = Date.now();
+    setPendingSegment(null);
+    setRecordingState((current) => ({
+      ...current,
+      isPaused: true,
+      startTime: null,
+      duration: current.duration + (current.startTime ? Date.now() - current.startTime : 0)
+    }));
+    toast.info('Recording paused');
+  };
+
+  // Continue a paused recording in the same session
+  const resumeRecording = async () => {
+    const provider = speechServiceRef.current;
+    if (!recordingState.isPaused || !provider) return;
+
+    try {
+      await provider.resumeRecognition();
+    } catch (error) {
+      console.error('Error resuming recording:', error);
+      toast.error('Error resuming recording');
+      return;
+    }
+
+    audioRecorderRef.current?.resume();
+    if (activeSessionIdRef.current) {
+      endPause(activeSessionIdRef.current);
     }
+    startChunkTimer(chunkRemainingRef.current);
+    setRecordingState((current) => ({ ...current, isPaused: false, startTime: Date.now() }));
+    toast.success('Recording resumed');
+  };
+
+  // Record the pause in progress on the session, so audio and subtitle timing can leave it out
+  const endPause = (sessionId: string) => {
+    const start = pausedAtRef.current;
+    if (start === null) return;
+
+    pausedAtRef.current = null;
+    const pause = { start, end: Date.now() };
+    updateSession(sessionId, (session) => ({ ...session, pauses: [...(session.pauses ?? []), pause] }));
+  };
+
+  // Summarize a chunk after delayMs of recording, then every chunk interval
+  const startChunkTimer = (delayMs: number) => {
+    chunkDueRef.current = Date.now() + delayMs;
+    chunkTimerRef.current = setTimeout(() => {
+      createSummary();
+      startChunkTimer(settings.audio.chunkIntervalMinutes * 60 * 1000);
+    }, delayMs);
   };
 
-  // Add transcript segment
+  // Stop the chunk timer and return how long was left until the next chunk
+  const clearChunkTimer = (): number => {
+    if (chunkTimerRef.current) {
+      clearTimeout(chunkTimerRef.current);
+      chunkTimerRef.current = null;
+    }
+    return Math.max(0, chunkDueRef.current - Date.now());
+  };
+
+  // Start recording the captured audio; recognition keeps running if this fails
+  const startAudioRecording = async (stream: MediaStream | null) => {
+    const recorder = new AudioRecorder();
+    audioRecorderRef.current = recorder;
+
+    try {
+      await recorder.start(stream);
+    } catch (error) {
+      console.error('Error starting audio recording:', error);
+      toast.error('Audio recording could not be started; transcription continues');
+      audioRecorderRef.current = null;
+    }
+  };
+
+  // Start matching live segments against enrolled voices; transcription continues if this fails
+  const startSpeakerIdentification = async (stream: MediaStream | null) => {
+    const buffer = new AudioSampleBuffer();
+
+    try {
+      await buffer.start(stream);
+      speakerAudioRef.current = buffer;
+      speakerIdentifierRef.current = new SpeakerIdentifier(settings.speakerId);
+    } catch (error) {
+      console.error('Error starting speaker identification:', error);
+      toast.error('Speaker identification could not be started; transcription continues');
+      buffer.stop();
+    }
+  };
+
+  const stopSpeakerIdentification = () => {
+    speakerAudioRef.current?.stop();
+    speakerAudioRef.current = null;
+    speakerIdentifierRef.current = null;
+  };
+
+  // Stop the audio recording and store it with the session
+  const saveAudioRecording = async (sessionId: string) => {
+    const recorder = audioRecorderRef.current;
+    audioRecorderRef.current = null;
+    if (!recorder) return;
+
+    try {
+      const recorded = await recorder.stop();
+      if (!recorded) return;
+
+      await recordingStore.set(sessionId, recorded.audio);
+      updateSession(sessionId, (session) => ({
+        ...session,
+        recording: {
+          mimeType: recorded.mimeType,
+          startTime: recorded.startTime,
+          duration: recorded.duration,
+          size: recorded.audio.size
+        }
+      }));
+    } catch (error) {
+      handleStorageError(error, 'recordings');
+    }
+  };
+
+  // Add transcript segment to the active session
   const addTranscriptSegment = (segment: TranscriptSegment) => {
     console.log('Adding transcript segment to state:', segment);
-    setTranscript((prev) => {
-      const newTranscript = [...prev, segment];
-      console.log('New transcript state:', newTranscript);
-      return newTranscript;
-    });
+    const sessionId = ensureActiveSession();
+    updateSession(sessionId, (session) => ({ ...session, transcript: [...session.transcript, segment] }));
   };
 
-  // Clear transcript
+  // Clear transcript of the active session
   const clearTranscript = () => {
-    setTranscript([]);
+    if (!activeSessionIdRef.current) return;
+    updateSession(activeSessionIdRef.current, (session) => ({ ...session, transcript: [] }));
   };
 
-  // Add summary
+  // Add summary to the active session
   const addSummary = (summary: SummaryChunk) => {
-    setSummaries((prev) => [...prev, summary]);
+    const sessionId = ensureActiveSession();
+    updateSession(sessionId, (session) => ({ ...session, summaries: [...session.summaries, summary] }));
   };
 
-  // Add Q&A pair
-  const addQA = (qa: QAPair) => {
-    setQAList((prev) => [...prev, qa]);
+  // Add Q&A pair to a session, the active one by default
+  const addQA = (qa: QAPair, sessionId: string = ensureActiveSession()) => {
+    updateSession(sessionId, (session) => ({ ...session, qaList: [...session.qaList, qa] }));
   };
 
-  // Handle question detection
-  const handleQuestion = async (question: string) => {
+  // Stream an answer into a pending Q&A pair, updating it token by token. Without a thread id the
+  // question starts a thread of its own.
+  const streamAnswer = async (question: string, isManual: boolean, threadId?: string) => {
     if (!openaiServiceRef.current) return;
 
-    try {
-      const answer = await openaiServiceRef.current.answerQuestion(question, transcript);
-
-      const qa: QAPair = {
-        id: Date.now().toString(),
-        question,
-        answer,
-        timestamp: Date.now(),
-        isManual: false
-      };
+    const id = Date.now().toString();
+    const sessionId = ensureActiveSession();
+    const controller = new AbortController();
+    answerControllersRef.current.set(id, controller);
+
+    // Earlier turns of the thread, read before this question joins it. Stopped and failed answers
+    // would only mislead the model about what it said.
+    const session = sessionsRef.current.find((s) => s.id === sessionId);
+    const history = threadId && session
+      ? session.qaList.filter((qa) => getThreadId(qa) === threadId && !qa.isStreaming && !qa.interrupted)
+      : [];
+
+    addQA({
+      id,
+      question,
+      answer: '',
+      timestamp: Date.now(),
+      isManual,
+      isStreaming: true,
+      threadId: threadId ?? id
+    }, sessionId);
+
+    const updateQA = (update: (qa: QAPair) => QAPair) => {
+      updateSession(sessionId, (session) => ({
+        ...session,
+        qaList: session.qaList.map((qa) => (qa.id === id ? update(qa) : qa))
+      }));
+    };
 
-      addQA(qa);
+    // The model sees speakers by the names given to them in this session. Gap markers carry nothing
+    // to answer from and would only take up line numbers.
+    const segments = session
+      ? withSpeakerNames(session.transcript.filter((segment) => !segment.gap), getSessionSpeakers(session))
+      : [];
 
-      // Show toast
-      toast.info('New question detected and answered');
+    try {
+      const { answer, lines, usage } = await openaiServiceRef.current.answerQuestionStream(
+        question,
+        { segments, summaries: session?.summaries ?? [], history },
+        (token) => setStreamingAnswers((prev) => ({ ...prev, [id]: (prev[id] ?? '') + token })),
+        controller.signal
+      );
+
+      // Settle the answer, turning the line numbers it cites into the segments they refer to.
+      // A stopped answer keeps whatever arrived before the user stopped it.
+      const resolved = resolveCitations(answer, lines);
+      const stopped = controller.signal.aborted;
+      updateQA((qa) => ({
+        ...qa,
+        answer: resolved.answer || (stopped ? 'Answer stopped.' : 'Unable to generate answer'),
+        sourceSegmentIds: resolved.sourceSegmentIds,
+        contextUsage: usage,
+        isStreaming: false,
+        interrupted: stopped ? 'stopped' : resolved.answer ? undefined : 'failed'
+      }));
+
+      if (!isManual && !stopped) {
+        // Show toast
+        toast.info('New question detected and answered');
+      }
 
     } catch (error) {
-      console.error('Error handling question:', error);
+      console.error('Error answering question:', error);
+      if (isManual) {
+        toast.error('Failed to answer question');
+      }
 
       // Add a fallback answer
-      const qa: QAPair = {
-        id: Date.now().toString(),
-        question,
+      updateQA((qa) => ({
+        ...qa,
         answer: "I'm sorry, I couldn't process that question. Please try again.",
-        timestamp: Date.now(),
-        isManual: false
-      };
-
-      addQA(qa);
+        isStreaming: false,
+        interrupted: 'failed'
+      }));
+    } finally {
+      answerControllersRef.current.delete(id);
+      setStreamingAnswers((prev) => {
+        const next = { ...prev };
+        delete next[id];
+        return next;
+      });
     }
   };
 
+  // Handle question detection
+  const handleQuestion = async (question: string) => {
+    await streamAnswer(question, false);
+  };
+
   // Ask question manually
   const askQuestion = async (question: string) => {
     if (!openaiServiceRef.current) {
@@ -312,36 +988,50 @@ export function AppProvider({ children }: { children: ReactNode }) {
       return;
     }
 
-    try {
-      const answer = await openaiServiceRef.current.answerQuestion(question, transcript);
+    // Continue the selected thread if it belongs to the active session, or start one that
+    // later questions continue
+    const session = sessionsRef.current.find((s) => s.id === activeSessionIdRef.current);
+    const threadId = activeThreadId && session?.qaList.some((qa) => getThreadId(qa) === activeThreadId)
+      ? activeThreadId
+      : generateId();
+    setActiveThreadId(threadId);
 
-      const qa: QAPair = {
-        id: Date.now().toString(),
-        question,
-        answer,
-        timestamp: Date.now(),
-        isManual: true
-      };
-
-      addQA(qa);
+    await streamAnswer(question, true, threadId);
+  };
 
-    } catch (error) {
-      console.error('Error answering question:', error);
-      toast.error('Failed to answer question');
+  // Send the next manual question to an earlier thread
+  const continueThread = (threadId: string) => {
+    setActiveThreadId(threadId);
+  };
 
-      // Add a fallback answer
-      const qa: QAPair = {
-        id: Date.now().toString(),
-        question,
-        answer: "I'm sorry, I couldn't process that question. Please try again.",
-        timestamp: Date.now(),
-        isManual: true
-      };
+  // Have the next manual question start a new thread
+  const startNewThread = () => {
+    setActiveThreadId(null);
+  };
 
-      addQA(qa);
-    }
+  // Abort an answer that is still streaming
+  const stopAnswer = (id: string) => {
+    answerControllersRef.current.get(id)?.abort();
   };
 
+  // Once sessions have loaded, move pre-session data into a session and settle answers that were
+  // still streaming, since they cannot resume after a reload
+  useEffect(() => {
+    if (!sessionsLoaded) return;
+
+    setSessions((prev) => prev.map((session) =>
+      session.qaList.some((qa) => qa.isStreaming)
+        ? { ...session, qaList: session.qaList.map((qa) => ({ ...qa, isStreaming: false })) }
+        : session
+    ));
+
+    takeLegacySession().then((legacySession) => {
+      if (legacySession) {
+        setSessions((prev) => [legacySession, ...prev]);
+      }
+    });
+  }, [sessionsLoaded]);
+
   // Update connection statuses
   const updateSTTStatus = (status: ConnectionStatus) => {
     setSTTStatus(status);
@@ -353,12 +1043,16 @@ export function AppProvider({ children }: { children: ReactNode }) {
 
   // Check initial connection status on first load if settings are configured
   useEffect(() => {
+    // Stored settings and statuses load asynchronously; checking the defaults would be wasted
+    if (!settingsLoaded || !sttStatusLoaded || !openaiStatusLoaded) return;
+
     const checkInitialConnections = async () => {
-      // Only check if settings are configured but status is disconnected
-      if (settings.stt.endpoint && settings.stt.subscriptionKey && settings.stt.region && sttStatus === 'disconnected') {
+      // Only check if settings are configured but the service is not known to work; a stored
+      // 'connecting' or 'error' is left over from an earlier visit and may no longer apply
+      if (isSpeechProviderConfigured(settings) && sttStatus !== 'connected') {
         setSTTStatus('connecting');
         try {
-          const tempService = new AzureSpeechService(settings.stt, () => {});
+          const tempService = createSpeechProvider(settings, () => {});
           const isConnected = await tempService.checkConnection();
           setSTTStatus(isConnected ? 'connected' : 'error');
         } catch (error) {
@@ -366,10 +1060,10 @@ export function AppProvider({ children }: { children: ReactNode }) {
         }
       }
 
-      if (settings.openai.endpoint && settings.openai.subscriptionKey && openaiStatus === 'disconnected') {
+      if (isLLMProviderConfigured(settings) && openaiStatus !== 'connected') {
         setOpenAIStatus('connecting');
         try {
-          const tempService = new AzureOpenAIService(settings.openai);
+          const tempService = new AzureOpenAIService(createLLMProvider(settings));
           const isConnected = await tempService.checkConnection();
           setOpenAIStatus(isConnected ? 'connected' : 'error');
         } catch (error) {
@@ -378,9 +1072,9 @@ export function AppProvider({ children }: { children: ReactNode }) {
       }
     };
 
-    // Check once on mount and whenever settings change but status is disconnected
+    // Check once on mount and whenever settings change but status is not connected
     checkInitialConnections();
-  }, [settings.stt.endpoint, settings.stt.subscriptionKey, settings.stt.region, settings.openai.endpoint, settings.openai.subscriptionKey]);
+  }, [settingsLoaded, sttStatusLoaded, openaiStatusLoaded, settings.speechProvider, settings.stt.endpoint, settings.stt.subscriptionKey, settings.stt.region, settings.whisper.endpoint, settings.llmProvider, settings.openai.endpoint, settings.openai.subscriptionKey, settings.openaiPlatform.apiKey, settings.localLLM.endpoint]);
 
   // Clean up on unmount
   useEffect(() => {
@@ -392,7 +1086,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
 
       // Clear any timers
       if (chunkTimerRef.current) {
-        clearInterval(chunkTimerRef.current);
+        clearTimeout(chunkTimerRef.current);
       }
     };
   }, [recordingState.isRecording]);
@@ -405,14 +1099,35 @@ export function AppProvider({ children }: { children: ReactNode }) {
         updateSettings,
         recordingState,
         toggleRecording,
+        pauseRecording,
+        resumeRecording,
+        fileTranscription,
+        transcribeAudioFile,
+        cancelFileTranscription,
+        sessions,
+        activeSessionId,
+        newSession,
+        openSession,
+        renameSession,
+        deleteSession,
+        updateSpeaker,
+        importSession,
         transcript,
+        pendingSegment,
         addTranscriptSegment,
         clearTranscript,
         summaries,
         addSummary,
+        minutes,
+        isGeneratingMinutes,
+        generateMinutes,
         qaList,
         addQA,
         askQuestion,
+        activeThreadId,
+        continueThread,
+        startNewThread,
+        stopAnswer,
         sttStatus,
         openaiStatus,
         updateSTTStatus,
@@ -1,8 +1,22 @@
+import { LocalLLMConfig, OpenAIConfig, SpeakerIdConfig, VocabularyProfile, WebSpeechConfig, WhisperConfig } from '../types';
+
+// Available speech-to-text backends
+export type SpeechProviderType = 'azure' | 'webspeech' | 'whisper';
+
+// Available chat model backends for summaries and answers
+export type LLMProviderType = 'azure' | 'openai' | 'local';
+
+// Where recorded audio comes from
+export type AudioSource = 'microphone' | 'system';
+
 // Application settings
 export interface AppSettings {
   // Dark mode toggle
   darkMode: boolean;
 
+  // Speech-to-text backend used for transcription
+  speechProvider: SpeechProviderType;
+
   // Azure Speech-to-Text settings
   stt: {
     endpoint: string;
@@ -12,18 +26,49 @@ export interface AppSettings {
     enableLanguageDetection?: boolean;
     candidateLanguages?: string[];
     continuousLanguageIdentification?: boolean;
+    // Label utterances with the speaker the service identified
+    enableSpeakerDiarization?: boolean;
+    // Custom Speech model deployment to recognize with instead of the base model
+    endpointId?: string;
+    // Phrase lists; the active profile's phrases are boosted each time recognition starts
+    vocabularyProfiles?: VocabularyProfile[];
+    activeVocabularyProfileId?: string | null;
   };
 
+  // Browser Web Speech API settings
+  webSpeech: WebSpeechConfig;
+
+  // Local Whisper server settings
+  whisper: WhisperConfig;
+
+  // Recognize enrolled voices and name their segments
+  speakerId: SpeakerIdConfig;
+
+  // Chat model backend used for summaries and answers
+  llmProvider: LLMProviderType;
+
   // Azure OpenAI settings
   openai: {
     endpoint: string;
     subscriptionKey: string;
     deploymentName: string;
+    contextWindow?: number; // Tokens the deployment accepts; guessed from the name when unset
+    reasoningModel?: boolean; // Whether the deployment runs a reasoning model; guessed from the name when unset
   };
 
+  // OpenAI platform settings
+  openaiPlatform: OpenAIConfig;
+
+  // Local OpenAI-compatible server settings
+  localLLM: LocalLLMConfig;
+
   // Audio settings
   audio: {
-    source: 'microphone' | 'system';
+    source: AudioSource;
+    // Mix the microphone into system audio capture
+    mixMicrophone?: boolean;
+    // Keep a local recording of the captured audio with each session
+    recordAudio?: boolean;
     chunkIntervalMinutes: number;
   };
 }
@@ -31,6 +76,7 @@ export interface AppSettings {
 // Default application settings
 export const defaultSettings: AppSettings = {
   darkMode: false,
+  speechProvider: 'azure',
   stt: {
     endpoint: '',
     subscriptionKey: '',
@@ -38,18 +84,60 @@ export const defaultSettings: AppSettings = {
     enableLanguageDetection: false,
     candidateLanguages: ['en-US'],
     continuousLanguageIdentification: false,
+    enableSpeakerDiarization: true,
+    endpointId: '',
+    vocabularyProfiles: [],
+    activeVocabularyProfileId: null,
   },
+  webSpeech: {
+    language: 'en-US',
+  },
+  whisper: {
+    endpoint: 'http://localhost:8000/v1',
+    apiKey: '',
+    model: 'whisper-1',
+    language: '',
+    windowSeconds: 10,
+  },
+  speakerId: {
+    enabled: false,
+    backend: 'local',
+    endpoint: '',
+    apiKey: '',
+    threshold: 0.95,
+    profiles: [],
+  },
+  llmProvider: 'azure',
   openai: {
     endpoint: '',
     subscriptionKey: '',
     deploymentName: 'gpt-35-turbo',
   },
+  openaiPlatform: {
+    apiKey: '',
+    model: 'gpt-4o-mini',
+  },
+  localLLM: {
+    endpoint: 'http://localhost:11434/v1',
+    apiKey: '',
+    model: 'llama3.1',
+  },
   audio: {
     source: 'microphone',
+    mixMicrophone: true,
+    recordAudio: false,
     chunkIntervalMinutes: 5,
   },
 };
 
+// Timing and confidence of one recognized word
+export interface TranscriptWord {
+  text: string;
+  offset: number; // ms from the start of the segment
+  duration: number; // ms
+  confidence?: number; // 0 to 1, when the service scores words individually
+}
+
 // Transcript segment representing a piece of transcribed speech
 export interface TranscriptSegment {
   id: string;
@@ -58,6 +146,26 @@ export interface TranscriptSegment {
   confidence: number;
   timestamp: number;
   isQuestion: boolean;
+  language?: string; // Locale the segment was recognized in, e.g. 'de-DE'
+  offset?: number; // ms from the start of the audio the segment was recognized in
+  duration?: number; // ms of audio the segment spans
+  words?: TranscriptWord[];
+  gap?: boolean; // Marks audio that went untranscribed while recognition recovered from an outage
+}
+
+// Hypothesis for the utterance still being spoken; replaced by a final segment once recognized
+export interface PendingSegment {
+  text: string;
+  speakerId?: string;
+  timestamp: number;
+  language?: string;
+}
+
+// Task agreed in a meeting, with the person responsible and due date when they were named
+export interface ActionItem {
+  text: string;
+  owner?: string;
+  due?: string; // As said in the meeting, e.g. 'Friday' or '2024-05-01'
 }
 
 // Summary chunk representing a summarized portion of the transcript
@@ -67,6 +175,32 @@ export interface SummaryChunk {
   startTime: number;
   endTime: number;
   relatedTranscriptIds: string[];
+  // Structured details; missing on summaries created before they were extracted
+  decisions?: string[];
+  actionItems?: ActionItem[];
+  topics?: string[];
+  risks?: string[];
+  contextUsage?: ContextUsage; // Tokens the summary requests took
+}
+
+// How much of the model's context window a request used and what transcript it was given
+export interface ContextUsage {
+  promptTokens: number; // Of the largest request when the work was split
+  contextWindow: number;
+  segmentsIncluded: number; // Segments quoted word for word
+  segmentsTotal: number;
+  summariesIncluded: number; // Summaries standing in for earlier segments left out
+}
+
+// Meeting minutes condensed from a session's summary chunks
+export interface MeetingMinutes {
+  overview: string;
+  decisions: string[];
+  actionItems: ActionItem[];
+  openQuestions: string[];
+  nextSteps: string[];
+  createdAt: number;
+  summaryIds: string[]; // Summary chunks the minutes were built from
 }
 
 // Q&A pair representing a question and its answer
@@ -76,6 +210,48 @@ export interface QAPair {
   answer: string;
   timestamp: number;
   isManual: boolean; // Whether the question was asked manually or detected in speech
+  isStreaming?: boolean; // Whether the answer is still being received
+  threadId?: string; // Conversation the pair belongs to; pairs without one stand alone
+  interrupted?: 'stopped' | 'failed'; // Why the answer is missing or incomplete, if it is
+  sourceSegmentIds?: string[]; // Transcript segments the answer cites; its marker [n] is the nth
+  contextUsage?: ContextUsage; // Context the answer was given
+}
+
+// Audio recorded alongside a session; the audio itself is kept in the recordings store
+export interface SessionRecording {
+  mimeType: string;
+  startTime: number; // Wall-clock time of the first recorded sample
+  duration: number; // ms
+  size: number; // bytes
+}
+
+// Stretch of a session that was paused and kept off the record
+export interface RecordingPause {
+  start: number;
+  end: number;
+}
+
+// Display details for a speaker the provider identified, keyed by the provider's speaker id
+export interface SessionSpeaker {
+  id: string; // Speaker id as reported by the provider, e.g. 'Guest-1'
+  name: string;
+  color: string; // CSS color of the speaker's label
+  role?: string; // e.g. 'Product manager', given to the model alongside the name
+}
+
+// A recording session with everything captured and generated during it
+export interface Session {
+  id: string;
+  title: string;
+  startTime: number;
+  endTime: number | null; // null while the session is still open
+  transcript: TranscriptSegment[];
+  summaries: SummaryChunk[];
+  qaList: QAPair[];
+  minutes?: MeetingMinutes; // Created when recording stops
+  recording?: SessionRecording;
+  pauses?: RecordingPause[]; // Left out of the recorded audio and subtitle timing
+  speakers?: SessionSpeaker[]; // Speakers that were renamed or recolored; others show their provider id
 }
 
 // Connection status for external services
@@ -84,6 +260,13 @@ export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'er
 // Recording state
 export interface RecordingState {
   isRecording: boolean;
-  startTime: number | null;
-  duration: number;
+  isPaused: boolean;
+  startTime: number | null; // Start of the current stretch; null while paused or stopped
+  duration: number; // ms recorded in earlier stretches, or in total once stopped
+}
+
+// Progress of an audio file being transcribed
+export interface FileTranscriptionState {
+  fileName: string;
+  progress: number; // 0 to 1
 }
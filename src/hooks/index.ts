@@ -1,2 +1,4 @@
 export * from './useKV';
+export * from './useKVCollection';
+export * from './useSessionRecording';
 export * from './useAzureServices';
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { useEffect, useState } from 'react';
 import { AzureSpeechService } from '../services/AzureSpeechService';
 import { AzureOpenAIService } from '../services/AzureOpenAIService';
+import { AzureOpenAIProvider } from '../services/AzureOpenAIProvider';
 import { AzureSTTConfig, AzureOpenAIConfig, TranscriptSegment, SummaryChunk } from '../types';
 
 // Hook for managing the Azure Speech-to-Text service
@@ -54,14 +55,14 @@ export function useAzureOpenAI(config: AzureOpenAIConfig) {
   
   // Initialize the service when config changes
   useEffect(() => {
-    const openAIService = new AzureOpenAIService(config);
+    const openAIService = new AzureOpenAIService(new AzureOpenAIProvider(config));
     setService(openAIService);
   }, [config.endpoint, config.subscriptionKey, config.deploymentName]);
   
   // Methods to control the service
   const generateSummary = async (segments: TranscriptSegment[]): Promise<string> => {
     if (service) {
-      return await service.generateSummary(segments);
+      return (await service.generateSummary(segments)).summary;
     }
     return '';
   };
@@ -1,27 +1,56 @@
-import { useState, useEffect } from 'react';
-
-// A simple implementation of the useKV hook that uses localStorage for persistence
-// This is a placeholder that will be replaced by the actual @github/spark/hooks implementation
-export function useKV<T>(key: string, defaultValue: T): [T, (value: T | ((prev: T) => T)) => void, () => void] {
-  const [value, setValue] = useState<T>(() => {
-    try {
-      // Initialize from localStorage if available
-      const item = window.localStorage.getItem(`kv-${key}`);
-      return item ? JSON.parse(item) : defaultValue;
-    } catch (error) {
-      console.error(`Error reading from localStorage for key ${key}:`, error);
-      return defaultValue;
-    }
-  });
-
-  // Sync with localStorage on changes
+import { useState, useEffect, useRef } from 'react';
+import { toast } from 'sonner';
+import { kvStore, StorageQuotaError } from '../lib/storage';
+
+// Report a failed write; a full quota is surfaced to the user since data would otherwise be lost silently
+export function handleStorageError(error: unknown, key: string) {
+  console.error(`Error writing to storage for key ${key}:`, error);
+  if (error instanceof StorageQuotaError) {
+    toast.error('Storage is full. Delete old sessions to free up space.', { id: 'storage-quota' });
+  }
+}
+
+// Persist a value in IndexedDB. The stored value loads asynchronously, so the hook starts with
+// the default and also returns whether loading has finished.
+export function useKV<T>(key: string, defaultValue: T): [T, (value: T | ((prev: T) => T)) => void, () => void, boolean] {
+  const [value, setValue] = useState<T>(defaultValue);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  // Last value known to be in storage, to skip writing back what was just read
+  const persistedRef = useRef<T | undefined>(undefined);
+
+  // Load the stored value
   useEffect(() => {
-    try {
-      window.localStorage.setItem(`kv-${key}`, JSON.stringify(value));
-    } catch (error) {
-      console.error(`Error writing to localStorage for key ${key}:`, error);
-    }
-  }, [key, value]);
+    let cancelled = false;
+    setIsLoaded(false);
+
+    kvStore.get<T>(key)
+      .then((stored) => {
+        if (cancelled) return;
+        if (stored !== undefined) {
+          persistedRef.current = stored;
+          setValue(stored);
+        }
+      })
+      .catch((error) => {
+        console.error(`Error reading from storage for key ${key}:`, error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoaded(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [key]);
+
+  // Sync with storage on changes, but never before the stored value has loaded
+  useEffect(() => {
+    if (!isLoaded || value === persistedRef.current) return;
+
+    persistedRef.current = value;
+    kvStore.set(key, value).catch((error) => handleStorageError(error, key));
+  }, [key, value, isLoaded]);
 
   // Function to update the value
   const updateValue = (newValueOrFunction: T | ((prev: T) => T)) => {
@@ -29,20 +58,19 @@ export function useKV<T>(key: string, defaultValue: T): [T, (value: T | ((prev:
       const newValue = typeof newValueOrFunction === 'function'
         ? (newValueOrFunction as ((prev: T) => T))(prev)
         : newValueOrFunction;
-      
+
       return newValue;
     });
   };
 
   // Function to delete the value
   const deleteValue = () => {
-    try {
-      window.localStorage.removeItem(`kv-${key}`);
-      setValue(defaultValue);
-    } catch (error) {
-      console.error(`Error deleting localStorage for key ${key}:`, error);
-    }
+    persistedRef.current = defaultValue;
+    setValue(defaultValue);
+    kvStore.delete(key).catch((error) => {
+      console.error(`Error deleting storage for key ${key}:`, error);
+    });
   };
 
-  return [value, updateValue, deleteValue];
-}
\ No newline at end of file
+  return [value, updateValue, deleteValue, isLoaded];
+}
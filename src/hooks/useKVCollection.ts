@@ -0,0 +1,96 @@
+import { useState, useEffect, useRef } from 'react';
+import { collectionStore, CollectionStoreName } from '../lib/storage';
+import { handleStorageError } from './useKV';
+
+// Changes are written at most this often, so a burst of updates to one record, such as segments
+// arriving while recording, is written once with its latest state
+const WRITE_INTERVAL_MS = 1000;
+
+// Persist an array of records in an IndexedDB object store. It is used like useKV with an array,
+// but only records whose object identity changed are written, and removed records are deleted.
+// Writes are batched, at most one every WRITE_INTERVAL_MS.
+export function useKVCollection<T extends { id: string }>(
+  storeName: CollectionStoreName
+): [T[], (value: T[] | ((prev: T[]) => T[])) => void, boolean] {
+  const [items, setItems] = useState<T[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  // Records as last written, by id
+  const persistedRef = useRef<Map<string, T>>(new Map());
+
+  // Latest records for the pending write, and the timer that runs it
+  const itemsRef = useRef<T[]>(items);
+  itemsRef.current = items;
+  const writeTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Write only changed and removed records
+  const writeChanges = () => {
+    if (writeTimerRef.current) {
+      clearTimeout(writeTimerRef.current);
+      writeTimerRef.current = null;
+    }
+
+    const current = itemsRef.current;
+    const persisted = persistedRef.current;
+    const changed = current.filter(item => persisted.get(item.id) !== item);
+    const currentIds = new Set(current.map(item => item.id));
+    const removedIds = [...persisted.keys()].filter(id => !currentIds.has(id));
+
+    if (changed.length === 0 && removedIds.length === 0) return;
+
+    persistedRef.current = new Map(current.map(item => [item.id, item]));
+    collectionStore.write(storeName, changed, removedIds)
+      .catch((error) => handleStorageError(error, storeName));
+  };
+
+  // Load all records
+  useEffect(() => {
+    let cancelled = false;
+
+    collectionStore.getAll<T>(storeName)
+      .then((records) => {
+        if (cancelled) return;
+        persistedRef.current = new Map(records.map(record => [record.id, record]));
+        // Keep anything added before loading finished
+        setItems(prev => [...records, ...prev.filter(item => !persistedRef.current.has(item.id))]);
+      })
+      .catch((error) => {
+        console.error(`Error reading from storage for ${storeName}:`, error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoaded(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [storeName]);
+
+  // Schedule a write after changes; later changes before it runs join the same write
+  useEffect(() => {
+    if (!isLoaded || writeTimerRef.current) return;
+    writeTimerRef.current = setTimeout(writeChanges, WRITE_INTERVAL_MS);
+  }, [storeName, items, isLoaded]);
+
+  // Write what is pending before the page goes away or the hook unmounts
+  useEffect(() => {
+    const flush = () => {
+      if (writeTimerRef.current) writeChanges();
+    };
+    window.addEventListener('pagehide', flush);
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      flush();
+    };
+  }, [storeName]);
+
+  // Function to update the records
+  const updateItems = (newItemsOrFunction: T[] | ((prev: T[]) => T[])) => {
+    setItems(prev => typeof newItemsOrFunction === 'function'
+      ? newItemsOrFunction(prev)
+      : newItemsOrFunction
+    );
+  };
+
+  return [items, updateItems, isLoaded];
+}
@@ -0,0 +1,34 @@
+import { useEffect, useState } from 'react';
+import { Session } from '../contexts/types';
+import { recordingStore } from '../lib/storage';
+
+// Load a session's recorded audio and expose it as an object URL for playback
+export function useSessionRecording(session: Session | null | undefined): string | null {
+  const [url, setUrl] = useState<string | null>(null);
+
+  const sessionId = session?.id;
+  const recordingStartTime = session?.recording?.startTime;
+
+  useEffect(() => {
+    setUrl(null);
+    if (!sessionId || recordingStartTime === undefined) return;
+
+    let cancelled = false;
+    let objectUrl: string | null = null;
+
+    recordingStore.get(sessionId)
+      .then((audio) => {
+        if (cancelled || !audio) return;
+        objectUrl = URL.createObjectURL(audio);
+        setUrl(objectUrl);
+      })
+      .catch((error) => console.error('Error loading session audio:', error));
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [sessionId, recordingStartTime]);
+
+  return url;
+}
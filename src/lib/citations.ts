@@ -0,0 +1,40 @@
+import { TranscriptSegment } from '../contexts/types';
+
+// Markers like [4] or [4, 7] that answers use to cite numbered transcript lines, with the
+// whitespace before them
+const CITATION_PATTERN = /(\s*)\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+// Turn the line numbers an answer cites into the ids of the segments on those lines. Markers are
+// renumbered to their segment's position in sourceSegmentIds, so [1] is the first source.
+// Markers that match no line, such as a number the model made up, are removed, so every marker
+// left in the answer is a source. Without lines the answer was not asked to cite and is kept as is.
+export function resolveCitations(
+  answer: string,
+  lines: TranscriptSegment[]
+): { answer: string; sourceSegmentIds: string[] } {
+  const sourceSegmentIds: string[] = [];
+  if (lines.length === 0) {
+    return { answer, sourceSegmentIds };
+  }
+
+  const text = answer.replace(CITATION_PATTERN, (_marker, space: string, numbers: string) => {
+    const cited = numbers.split(',').map(number => lines[parseInt(number, 10) - 1]).filter(Boolean);
+    if (cited.length === 0) return '';
+
+    return space + cited.map(segment => {
+      let index = sourceSegmentIds.indexOf(segment.id);
+      if (index === -1) {
+        index = sourceSegmentIds.push(segment.id) - 1;
+      }
+      return `[${index + 1}]`;
+    }).join('');
+  });
+
+  return { answer: text, sourceSegmentIds };
+}
+
+// Answer text without citation markers, e.g. to send it back to the model or while the
+// markers still refer to prompt line numbers
+export function stripCitations(answer: string): string {
+  return answer.replace(/\s*\[\d+(?:\s*,\s*\d+)*\]/g, '');
+}
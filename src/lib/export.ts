@@ -0,0 +1,236 @@
+import { ActionItem, Session } from '../contexts/types';
+import { toRecordedOffset } from './sessions';
+import { getSessionSpeakers, getSpeakerName } from './speakers';
+
+export type ExportFormat = 'markdown' | 'json' | 'text' | 'srt' | 'vtt';
+
+// A serialized session ready to be saved as a file
+export interface ExportedFile {
+  filename: string;
+  content: string;
+  mimeType: string;
+}
+
+// File details per format
+const FORMAT_DETAILS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  markdown: { label: 'Markdown minutes', extension: 'md', mimeType: 'text/markdown' },
+  json: { label: 'JSON (full data)', extension: 'json', mimeType: 'application/json' },
+  text: { label: 'Plain text transcript', extension: 'txt', mimeType: 'text/plain' },
+  srt: { label: 'SRT subtitles', extension: 'srt', mimeType: 'application/x-subrip' },
+  vtt: { label: 'WebVTT subtitles', extension: 'vtt', mimeType: 'text/vtt' },
+};
+
+// Cue length bounds when the next segment is far away or there is none
+const MIN_CUE_MS = 1000;
+const MAX_CUE_MS = 10000;
+const MS_PER_WORD = 400;
+
+export function getExportFormatLabel(format: ExportFormat): string {
+  return FORMAT_DETAILS[format].label;
+}
+
+// Serialize a session in the given format. Subtitle cues are timed relative to recordingStartTime,
+// which defaults to the session start, with paused stretches left out.
+export function exportSession(session: Session, format: ExportFormat, recordingStartTime = session.startTime): ExportedFile {
+  const { extension, mimeType } = FORMAT_DETAILS[format];
+
+  let content: string;
+  switch (format) {
+    case 'json':
+      content = JSON.stringify(session, null, 2);
+      break;
+    case 'text':
+      content = toPlainText(session, recordingStartTime);
+      break;
+    case 'srt':
+      content = toSrt(session, recordingStartTime);
+      break;
+    case 'vtt':
+      content = toVtt(session, recordingStartTime);
+      break;
+    case 'markdown':
+    default:
+      content = toMarkdown(session);
+      break;
+  }
+
+  return {
+    filename: `${toFileSlug(session.title)}.${extension}`,
+    content,
+    mimeType,
+  };
+}
+
+// Save an exported file through a temporary download link
+export function downloadExportedFile(file: ExportedFile): void {
+  const url = URL.createObjectURL(new Blob([file.content], { type: `${file.mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+// Markdown meeting notes: minutes, summary timeline, Q&A and the full transcript
+function toMarkdown(session: Session): string {
+  const lines: string[] = [`# ${session.title}`, ''];
+
+  lines.push(`- **Started:** ${formatDateTime(session.startTime)}`);
+  if (session.endTime !== null) {
+    lines.push(`- **Ended:** ${formatDateTime(session.endTime)}`);
+  }
+  const speakers = getSessionSpeakers(session);
+  if (speakers.length > 0) {
+    lines.push(`- **Speakers:** ${speakers.map(speaker => (speaker.role ? `${speaker.name} (${speaker.role})` : speaker.name)).join(', ')}`);
+  }
+  lines.push('');
+
+  const { minutes } = session;
+  if (minutes) {
+    lines.push('## Minutes', '');
+    if (minutes.overview) {
+      lines.push(minutes.overview, '');
+    }
+    pushList(lines, '### Decisions', minutes.decisions);
+    pushList(lines, '### Action Items', minutes.actionItems.map(formatActionItem));
+    pushList(lines, '### Open Questions', minutes.openQuestions);
+    pushList(lines, '### Next Steps', minutes.nextSteps);
+  }
+
+  if (session.summaries.length > 0) {
+    lines.push('## Summaries', '');
+    for (const summary of session.summaries) {
+      lines.push(`### ${formatTimeOfDay(summary.startTime)} – ${formatTimeOfDay(summary.endTime)}`, '');
+      if (summary.topics && summary.topics.length > 0) {
+        lines.push(`*Topics: ${summary.topics.join(', ')}*`, '');
+      }
+      lines.push(summary.summary, '');
+      pushList(lines, '**Decisions**', summary.decisions ?? []);
+      pushList(lines, '**Action Items**', (summary.actionItems ?? []).map(formatActionItem));
+      pushList(lines, '**Risks**', summary.risks ?? []);
+    }
+  }
+
+  if (session.qaList.length > 0) {
+    lines.push('## Questions & Answers', '');
+    for (const qa of session.qaList) {
+      lines.push(`**Q (${formatTimeOfDay(qa.timestamp)}):** ${qa.question}`, '', `**A:** ${qa.answer}`, '');
+
+      const sources = (qa.sourceSegmentIds ?? []).flatMap((id, index) => {
+        const segment = session.transcript.find(candidate => candidate.id === id);
+        return segment
+          ? [`[${index + 1}] ${formatTimeOfDay(segment.timestamp)} ${getSpeakerName(speakers, segment.speakerId)}`]
+          : [];
+      });
+      if (sources.length > 0) {
+        lines.push(`*Sources: ${sources.join('; ')}*`, '');
+      }
+    }
+  }
+
+  if (session.transcript.length > 0) {
+    lines.push('## Transcript', '');
+    for (const segment of session.transcript) {
+      lines.push(segment.gap
+        ? `*[${formatTimeOfDay(segment.timestamp)}] ${segment.text}*`
+        : `**[${formatTimeOfDay(segment.timestamp)}] ${getSpeakerName(speakers, segment.speakerId)}:** ${segment.text}`, '');
+    }
+  }
+
+  return lines.join('\n').trimEnd() + '\n';
+}
+
+// One line per segment with its offset into the recording
+function toPlainText(session: Session, recordingStartTime: number): string {
+  const speakers = getSessionSpeakers(session);
+  const lines = session.transcript.map(segment => {
+    const offset = formatOffset(toRecordedOffset(segment.timestamp, recordingStartTime, session.pauses));
+    return segment.gap
+      ? `[${offset}] (${segment.text})`
+      : `[${offset}] ${getSpeakerName(speakers, segment.speakerId)}: ${segment.text}`;
+  });
+  return [session.title, '', ...lines].join('\n') + '\n';
+}
+
+function toSrt(session: Session, recordingStartTime: number): string {
+  return getCues(session, recordingStartTime)
+    .map((cue, index) => [
+      String(index + 1),
+      `${formatOffset(cue.start, ',')} --> ${formatOffset(cue.end, ',')}`,
+      cue.speaker ? `${cue.speaker}: ${cue.text}` : cue.text,
+    ].join('\n'))
+    .join('\n\n') + '\n';
+}
+
+function toVtt(session: Session, recordingStartTime: number): string {
+  const cues = getCues(session, recordingStartTime).map(cue => [
+    `${formatOffset(cue.start, '.')} --> ${formatOffset(cue.end, '.')}`,
+    cue.speaker ? `<v ${cue.speaker}>${cue.text}` : cue.text,
+  ].join('\n'));
+
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+}
+
+// Subtitle cues in ms from the recording start. Each cue lasts as long as its audio where the
+// provider reported it, or else an estimate from its word count, and ends by the next segment.
+// Gap markers have nothing to caption.
+function getCues(session: Session, recordingStartTime: number) {
+  const segments = session.transcript.filter(segment => !segment.gap);
+  const speakers = getSessionSpeakers(session);
+  const offsetOf = (timestamp: number) => toRecordedOffset(timestamp, recordingStartTime, session.pauses);
+
+  return segments.map((segment, index) => {
+    const start = offsetOf(segment.timestamp);
+    const duration = segment.duration
+      ?? Math.min(MAX_CUE_MS, Math.max(MIN_CUE_MS, segment.text.split(/\s+/).length * MS_PER_WORD));
+    const next = segments[index + 1];
+    const nextStart = next ? offsetOf(next.timestamp) : Infinity;
+    const end = Math.max(start + 1, Math.min(start + duration, nextStart));
+
+    return {
+      start,
+      end,
+      text: segment.text,
+      speaker: segment.speakerId && getSpeakerName(speakers, segment.speakerId),
+    };
+  });
+}
+
+function pushList(lines: string[], heading: string, items: string[]) {
+  if (items.length === 0) return;
+  lines.push(heading, '', ...items.map(item => `- ${item}`), '');
+}
+
+function formatActionItem(item: ActionItem): string {
+  const details = [item.owner, item.due && `due ${item.due}`].filter(Boolean).join(', ');
+  return details ? `${item.text} (${details})` : item.text;
+}
+
+// Format a duration as HH:MM:SS, with milliseconds after the separator when one is given
+function formatOffset(ms: number, millisSeparator?: string): string {
+  const clamped = Math.max(0, Math.round(ms));
+  const hours = Math.floor(clamped / 3600000);
+  const minutes = Math.floor((clamped % 3600000) / 60000);
+  const seconds = Math.floor((clamped % 60000) / 1000);
+  const time = [hours, minutes, seconds].map(part => part.toString().padStart(2, '0')).join(':');
+
+  return millisSeparator ? `${time}${millisSeparator}${(clamped % 1000).toString().padStart(3, '0')}` : time;
+}
+
+function formatDateTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+function formatTimeOfDay(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString();
+}
+
+// Turn a session title into a safe file name
+function toFileSlug(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'session';
+}
@@ -0,0 +1,184 @@
+import { Session, TranscriptSegment } from '../contexts/types';
+import { generateId, isQuestion } from './helpers';
+import { createSession } from './sessions';
+
+// File types accepted by importSessionFile
+export const IMPORT_FILE_ACCEPT = '.json,.txt,.srt,.vtt';
+
+// Spacing for plain-text lines that carry no timestamp
+const MS_PER_WORD = 400;
+
+// Turn an exported session JSON or a transcript from another tool into a new session.
+// Transcript timestamps are offsets, so they are placed relative to the import time.
+export function importSessionFile(fileName: string, content: string): Session {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  const title = fileName.replace(/\.[^.]+$/, '') || 'Imported transcript';
+  const text = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+
+  switch (extension) {
+    case 'json':
+      return importSessionJson(text);
+    case 'srt':
+    case 'vtt':
+      return toImportedSession(title, parseCues(text));
+    case 'txt':
+    default:
+      return toImportedSession(title, parsePlainText(text));
+  }
+}
+
+// A parsed transcript line: offset from the start of the recording, speaker and text
+interface ImportedLine {
+  offset: number;
+  duration?: number;
+  speakerId?: string;
+  text: string;
+}
+
+// Restore a session exported as JSON under a new id so it never replaces an existing one
+function importSessionJson(text: string): Session {
+  let data: Partial<Session>;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error('The file is not valid JSON');
+  }
+
+  if (!data || typeof data !== 'object' || !Array.isArray(data.transcript)) {
+    throw new Error('The JSON file is not an exported session');
+  }
+
+  const transcript = data.transcript.filter((segment): segment is TranscriptSegment =>
+    !!segment && typeof segment.text === 'string' && typeof segment.timestamp === 'number'
+  );
+  const fallback = createSession(typeof data.title === 'string' ? data.title : 'Imported session');
+
+  return {
+    ...fallback,
+    startTime: typeof data.startTime === 'number' ? data.startTime : transcript[0]?.timestamp ?? fallback.startTime,
+    endTime: typeof data.endTime === 'number' ? data.endTime : transcript[transcript.length - 1]?.timestamp ?? null,
+    transcript: transcript.map((segment) => ({
+      ...segment,
+      id: segment.id || generateId(),
+      confidence: typeof segment.confidence === 'number' ? segment.confidence : 1,
+      isQuestion: typeof segment.isQuestion === 'boolean' ? segment.isQuestion : isQuestion(segment.text)
+    })),
+    summaries: Array.isArray(data.summaries) ? data.summaries : [],
+    qaList: Array.isArray(data.qaList) ? data.qaList.map((qa) => ({ ...qa, isStreaming: false })) : [],
+    ...(data.minutes ? { minutes: data.minutes } : {}),
+    ...(Array.isArray(data.speakers) ? { speakers: data.speakers } : {})
+  };
+}
+
+// Build a closed session from parsed transcript lines
+function toImportedSession(title: string, lines: ImportedLine[]): Session {
+  if (lines.length === 0) {
+    throw new Error('No transcript lines were found in the file');
+  }
+
+  const session = createSession(title);
+  const transcript: TranscriptSegment[] = lines.map((line) => ({
+    id: generateId(),
+    text: line.text,
+    // Our own exports label segments without a speaker as Unknown
+    speakerId: line.speakerId === 'Unknown' ? undefined : line.speakerId,
+    confidence: 1,
+    timestamp: session.startTime + line.offset,
+    isQuestion: isQuestion(line.text),
+    offset: line.offset,
+    ...(line.duration !== undefined ? { duration: line.duration } : {})
+  }));
+
+  return {
+    ...session,
+    endTime: transcript[transcript.length - 1].timestamp,
+    transcript
+  };
+}
+
+// Parse SRT or WebVTT cues, keeping each cue's start and length
+function parseCues(text: string): ImportedLine[] {
+  const lines: ImportedLine[] = [];
+
+  for (const block of text.split(/\n{2,}/)) {
+    const rows = block.split('\n').map((row) => row.trim()).filter(Boolean);
+    const timingIndex = rows.findIndex((row) => row.includes('-->'));
+    if (timingIndex === -1) continue;
+
+    const [startValue, endValue = ''] = rows[timingIndex].split('-->');
+    const offset = parseTimestamp(startValue);
+    const end = parseTimestamp(endValue);
+    const cueText = rows.slice(timingIndex + 1).join(' ');
+    if (offset === null || !cueText) continue;
+
+    lines.push({
+      offset,
+      ...(end !== null && end > offset ? { duration: end - offset } : {}),
+      ...splitSpeaker(cueText)
+    });
+  }
+
+  return lines;
+}
+
+// Parse plain text with one utterance per line, optionally prefixed with [HH:MM:SS] and a speaker.
+// Lines without a timestamp follow the previous line after an estimated speaking time.
+function parsePlainText(text: string): ImportedLine[] {
+  const rows = text.split('\n').map((row) => row.trim()).filter(Boolean);
+  const hasTimestamps = rows.some((row) => /^\[[\d:.,]+\]/.test(row));
+
+  // Our own text export starts with the session title
+  if (hasTimestamps && rows.length > 0 && !/^\[[\d:.,]+\]/.test(rows[0])) {
+    rows.shift();
+  }
+
+  const lines: ImportedLine[] = [];
+  let nextOffset = 0;
+
+  for (const row of rows) {
+    const match = row.match(/^\[([\d:.,]+)\]\s*(.*)$/);
+    const offset = match ? parseTimestamp(match[1]) ?? nextOffset : nextOffset;
+    const body = match ? match[2] : row;
+    if (!body) continue;
+
+    const line = { offset, ...splitSpeaker(body) };
+    lines.push(line);
+    nextOffset = offset + line.text.split(/\s+/).length * MS_PER_WORD;
+  }
+
+  return lines;
+}
+
+// Separate a speaker from "<v Name>text" or "Name: text"
+function splitSpeaker(text: string): { speakerId?: string; text: string } {
+  const voice = text.match(/^<v(?:\.[^ >]+)?\s+([^>]+)>(.*)$/);
+  if (voice) {
+    return { speakerId: voice[1].trim(), text: stripTags(voice[2]) };
+  }
+
+  const plain = stripTags(text);
+  const labelled = plain.match(/^([^:]{1,40}):\s+(.+)$/);
+  if (labelled && !/\d{2}$/.test(labelled[1])) {
+    return { speakerId: labelled[1].trim(), text: labelled[2].trim() };
+  }
+
+  return { text: plain };
+}
+
+function stripTags(text: string): string {
+  return text.replace(/<[^>]+>/g, '').trim();
+}
+
+// Parse HH:MM:SS(.mmm|,mmm) or MM:SS(.mmm) into milliseconds
+function parseTimestamp(value: string): number | null {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{2})(?:[.,](\d{1,3}))?/);
+  if (!match) return null;
+
+  const [, hours = '0', minutes, seconds, millis = '0'] = match;
+  return (
+    Number(hours) * 3600000 +
+    Number(minutes) * 60000 +
+    Number(seconds) * 1000 +
+    Number(millis.padEnd(3, '0'))
+  );
+}
@@ -0,0 +1,134 @@
+import { QAPair, RecordingPause, Session, TranscriptSegment } from '../contexts/types';
+import { formatTime, generateId } from './helpers';
+import { kvStore } from './storage';
+
+// Storage keys used before sessions existed
+const LEGACY_SUMMARIES_KEY = 'ai-assistant-summaries';
+const LEGACY_QA_KEY = 'ai-assistant-qa';
+
+// Speaking pace assumed where a provider does not say how long a segment lasted
+const MS_PER_WORD = 400;
+
+// Create an empty session starting now
+export function createSession(title?: string): Session {
+  const startTime = Date.now();
+
+  return {
+    id: generateId(),
+    title: title || `Session ${new Date(startTime).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}`,
+    startTime,
+    endTime: null,
+    transcript: [],
+    summaries: [],
+    qaList: []
+  };
+}
+
+// Whether a session has no content yet and can be reused instead of creating another one
+export function isSessionEmpty(session: Session): boolean {
+  return session.transcript.length === 0 && session.summaries.length === 0 && session.qaList.length === 0;
+}
+
+// Transcript segments not yet covered by any of the session's summary chunks, in transcript order.
+// Gap markers carry nothing to summarize.
+export function getUnsummarizedSegments(session: Session): TranscriptSegment[] {
+  const summarizedIds = new Set(session.summaries.flatMap(summary => summary.relatedTranscriptIds));
+  return session.transcript.filter(segment => !segment.gap && !summarizedIds.has(segment.id));
+}
+
+// Position of a moment in the recorded audio that started at startTime, leaving out the
+// paused stretches before it
+export function toRecordedOffset(timestamp: number, startTime: number, pauses: RecordingPause[] = []): number {
+  const pausedMs = pauses
+    .filter(pause => pause.start >= startTime && pause.start < timestamp)
+    .reduce((total, pause) => total + Math.min(pause.end, timestamp) - pause.start, 0);
+  return Math.max(0, timestamp - startTime - pausedMs);
+}
+
+// Wall-clock span of the audio behind a segment. For providers that report no duration, the
+// segment is assumed to be spoken at a usual pace and to have ended by now.
+export function getSegmentSpan(segment: TranscriptSegment, now: number = Date.now()): { start: number; end: number } {
+  if (segment.duration !== undefined) {
+    return { start: segment.timestamp, end: segment.timestamp + segment.duration };
+  }
+
+  const estimate = segment.text.split(/\s+/).length * MS_PER_WORD;
+  const end = Math.min(segment.timestamp + estimate, now);
+  return { start: end - estimate, end };
+}
+
+// Transcript marker for a stretch of audio that was lost while recognition was down
+export function createGapSegment(gapStart: number, gapEnd: number): TranscriptSegment {
+  return {
+    id: generateId(),
+    text: `Transcription interrupted for ${formatTime(gapEnd - gapStart)}`,
+    confidence: 0,
+    timestamp: gapStart,
+    isQuestion: false,
+    duration: gapEnd - gapStart,
+    gap: true
+  };
+}
+
+// Thread a Q&A pair belongs to. Pairs asked before threads existed each form their own.
+export function getThreadId(qa: QAPair): string {
+  return qa.threadId ?? qa.id;
+}
+
+// Q&A pairs grouped into threads, each in the order asked, ordered by their first question
+export function groupQAThreads(qaList: QAPair[]): QAPair[][] {
+  const threads = new Map<string, QAPair[]>();
+  for (const qa of qaList) {
+    const threadId = getThreadId(qa);
+    threads.set(threadId, [...(threads.get(threadId) ?? []), qa]);
+  }
+  return [...threads.values()];
+}
+
+// Split segments into consecutive groups spanning at most intervalMs each, like live chunking does
+export function groupSegmentsByInterval(segments: TranscriptSegment[], intervalMs: number): TranscriptSegment[][] {
+  const groups: TranscriptSegment[][] = [];
+
+  for (const segment of segments) {
+    const current = groups[groups.length - 1];
+    if (current && segment.timestamp - current[0].timestamp < intervalMs) {
+      current.push(segment);
+    } else {
+      groups.push([segment]);
+    }
+  }
+
+  return groups;
+}
+
+// Summaries and Q&A used to be stored under global keys with no link to a recording.
+// Move them into a single session once so they stay reachable, then remove the old keys.
+export async function takeLegacySession(): Promise<Session | null> {
+  try {
+    const summaries = (await kvStore.get<Session['summaries']>(LEGACY_SUMMARIES_KEY)) ?? [];
+    const qaList = (await kvStore.get<Session['qaList']>(LEGACY_QA_KEY)) ?? [];
+
+    await kvStore.delete(LEGACY_SUMMARIES_KEY);
+    await kvStore.delete(LEGACY_QA_KEY);
+
+    if (summaries.length === 0 && qaList.length === 0) {
+      return null;
+    }
+
+    const timestamps = [
+      ...summaries.map((summary) => summary.startTime),
+      ...qaList.map((qa) => qa.timestamp)
+    ];
+
+    return {
+      ...createSession('Earlier conversations'),
+      startTime: Math.min(...timestamps),
+      endTime: Math.max(...timestamps),
+      summaries,
+      qaList
+    };
+  } catch (error) {
+    console.error('Error migrating legacy summaries and Q&A:', error);
+    return null;
+  }
+}
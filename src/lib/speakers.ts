@@ -0,0 +1,99 @@
+import { ActionItem, Session, SessionSpeaker, TranscriptSegment } from '../contexts/types';
+
+// Label colors handed out to speakers in the order they first speak
+export const SPEAKER_COLORS = ['#2563eb', '#16a34a', '#d97706', '#dc2626', '#9333ea', '#0891b2', '#db2777', '#4d7c0f'];
+
+// Name used for segments the provider did not attribute to anyone
+const UNKNOWN_SPEAKER = 'Unknown';
+
+// Every speaker heard in a session, in order of first appearance. Speakers missing from the
+// registry are named after their provider id and take the palette color of their position.
+export function getSessionSpeakers(session: Session): SessionSpeaker[] {
+  const registered = new Map((session.speakers ?? []).map(speaker => [speaker.id, speaker]));
+  const ids = [...new Set(session.transcript.flatMap(segment => (segment.speakerId ? [segment.speakerId] : [])))];
+
+  const speakers = ids.map((id, index) =>
+    registered.get(id) ?? { id, name: id, color: SPEAKER_COLORS[index % SPEAKER_COLORS.length] }
+  );
+  const heard = new Set(ids);
+  return [...speakers, ...(session.speakers ?? []).filter(speaker => !heard.has(speaker.id))];
+}
+
+// Whether a provider speaker was given a name, by the user or by an earlier voice match
+export function isSpeakerNamed(session: Session, speakerId: string): boolean {
+  const speaker = session.speakers?.find(candidate => candidate.id === speakerId);
+  return !!speaker && speaker.name !== speaker.id;
+}
+
+// Name shown for a provider speaker id
+export function getSpeakerName(speakers: SessionSpeaker[], speakerId?: string): string {
+  if (!speakerId) return UNKNOWN_SPEAKER;
+  return speakers.find(speaker => speaker.id === speakerId)?.name || speakerId;
+}
+
+// Segments with their speaker ids replaced by display names, and roles where given, for prompts
+// and exports that print the speaker of each line
+export function withSpeakerNames(segments: TranscriptSegment[], speakers: SessionSpeaker[]): TranscriptSegment[] {
+  return segments.map(segment => {
+    if (!segment.speakerId) return segment;
+
+    const speaker = speakers.find(candidate => candidate.id === segment.speakerId);
+    const name = speaker?.name || segment.speakerId;
+    return { ...segment, speakerId: speaker?.role ? `${name} (${speaker.role})` : name };
+  });
+}
+
+// Apply changes to a speaker and rewrite earlier summaries, minutes and answers that mention the
+// speaker by its previous name, so the whole session reads with the new one
+export function updateSessionSpeaker(
+  session: Session,
+  speakerId: string,
+  changes: Partial<Omit<SessionSpeaker, 'id'>>
+): Session {
+  const speakers = getSessionSpeakers(session);
+  const current = speakers.find(speaker => speaker.id === speakerId)
+    ?? { id: speakerId, name: speakerId, color: SPEAKER_COLORS[speakers.length % SPEAKER_COLORS.length] };
+  const updated: SessionSpeaker = { ...current, ...changes, name: changes.name?.trim() || current.name };
+
+  const registry = session.speakers ?? [];
+  const nextSpeakers = registry.some(speaker => speaker.id === speakerId)
+    ? registry.map(speaker => (speaker.id === speakerId ? updated : speaker))
+    : [...registry, updated];
+
+  if (updated.name === current.name) {
+    return { ...session, speakers: nextSpeakers };
+  }
+
+  const rename = (text: string) => replaceName(text, current.name, updated.name);
+  const renameList = (items: string[] | undefined) => items?.map(rename);
+  const renameAction = (item: ActionItem): ActionItem =>
+    ({ ...item, text: rename(item.text), owner: item.owner && rename(item.owner) });
+
+  return {
+    ...session,
+    speakers: nextSpeakers,
+    summaries: session.summaries.map(summary => ({
+      ...summary,
+      summary: rename(summary.summary),
+      decisions: renameList(summary.decisions),
+      actionItems: summary.actionItems?.map(renameAction),
+      topics: renameList(summary.topics),
+      risks: renameList(summary.risks)
+    })),
+    minutes: session.minutes && {
+      ...session.minutes,
+      overview: rename(session.minutes.overview),
+      decisions: session.minutes.decisions.map(rename),
+      actionItems: session.minutes.actionItems.map(renameAction),
+      openQuestions: session.minutes.openQuestions.map(rename),
+      nextSteps: session.minutes.nextSteps.map(rename)
+    },
+    qaList: session.qaList.map(qa => ({ ...qa, answer: rename(qa.answer) }))
+  };
+}
+
+// Replace whole-name mentions only, so renaming 'Guest-1' leaves 'Guest-10' alone
+function replaceName(text: string, from: string, to: string): string {
+  const escaped = from.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return text.replace(new RegExp(`(?<![\\w-])${escaped}(?![\\w-])`, 'g'), () => to);
+}
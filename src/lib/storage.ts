@@ -0,0 +1,203 @@
+// IndexedDB persistence for app data. Values live in a key-value store; collections such as
+// sessions get their own object store so each record is written on its own.
+
+const DB_NAME = 'ai-conversation-assistant';
+const DB_VERSION = 2;
+
+// Key-value store backing useKV
+const KV_STORE = 'kv';
+
+// Collections keyed by record id, backing useKVCollection
+export type CollectionStoreName = 'sessions';
+const COLLECTION_STORES: CollectionStoreName[] = ['sessions'];
+
+// Recorded session audio, keyed by session id. Kept apart from sessions so audio is only loaded on demand.
+const RECORDINGS_STORE = 'recordings';
+
+// Data written by the previous localStorage implementation of useKV
+const LOCAL_STORAGE_PREFIX = 'kv-';
+const MIGRATION_FLAG_KEY = '__migrated-from-localstorage';
+
+// Thrown when the browser refuses a write because the storage quota is used up
+export class StorageQuotaError extends Error {
+  constructor(message = 'Storage quota exceeded') {
+    super(message);
+    this.name = 'StorageQuotaError';
+  }
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+// Wrap an IndexedDB request in a promise
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Translate quota failures into StorageQuotaError so callers can tell the user
+function toStorageError(error: DOMException | null): Error {
+  if (error?.name === 'QuotaExceededError') {
+    return new StorageQuotaError();
+  }
+  return error ?? new Error('Unknown storage error');
+}
+
+// Run work inside a transaction and resolve once it has been committed
+function runTransaction(
+  database: IDBDatabase,
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  work: (transaction: IDBTransaction) => void
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(storeNames, mode);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(toStorageError(transaction.error));
+    transaction.onabort = () => reject(toStorageError(transaction.error));
+    work(transaction);
+  });
+}
+
+// Copy every kv-* localStorage entry into IndexedDB once, then remove it from localStorage
+async function migrateFromLocalStorage(database: IDBDatabase): Promise<void> {
+  const transaction = database.transaction([KV_STORE], 'readonly');
+  const migrated = await requestToPromise(transaction.objectStore(KV_STORE).get(MIGRATION_FLAG_KEY));
+  if (migrated) {
+    return;
+  }
+
+  const legacyKeys = Object.keys(window.localStorage).filter(key => key.startsWith(LOCAL_STORAGE_PREFIX));
+
+  await runTransaction(database, [KV_STORE, ...COLLECTION_STORES], 'readwrite', (tx) => {
+    for (const legacyKey of legacyKeys) {
+      const key = legacyKey.slice(LOCAL_STORAGE_PREFIX.length);
+      let value: unknown;
+      try {
+        value = JSON.parse(window.localStorage.getItem(legacyKey) ?? 'null');
+      } catch (error) {
+        console.error(`Skipping unreadable localStorage entry ${legacyKey}:`, error);
+        continue;
+      }
+
+      // Sessions move into their own store, one record each
+      if (key === 'ai-assistant-sessions' && Array.isArray(value)) {
+        const sessionStore = tx.objectStore('sessions');
+        value.forEach(session => sessionStore.put(session));
+      } else {
+        tx.objectStore(KV_STORE).put(value, key);
+      }
+    }
+
+    tx.objectStore(KV_STORE).put(true, MIGRATION_FLAG_KEY);
+  });
+
+  // Only clear localStorage once the data is safely committed
+  legacyKeys.forEach(key => window.localStorage.removeItem(key));
+  if (legacyKeys.length > 0) {
+    console.log(`Migrated ${legacyKeys.length} localStorage entries to IndexedDB`);
+  }
+}
+
+// Open the database, creating stores and migrating old data on first use
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        if (!database.objectStoreNames.contains(KV_STORE)) {
+          database.createObjectStore(KV_STORE);
+        }
+        COLLECTION_STORES.forEach(name => {
+          if (!database.objectStoreNames.contains(name)) {
+            database.createObjectStore(name, { keyPath: 'id' });
+          }
+        });
+        if (!database.objectStoreNames.contains(RECORDINGS_STORE)) {
+          database.createObjectStore(RECORDINGS_STORE);
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).then(async (database) => {
+      await migrateFromLocalStorage(database);
+      return database;
+    });
+
+    // Allow a later call to retry if opening failed
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+
+  return databasePromise;
+}
+
+// Single values stored by key
+export const kvStore = {
+  async get<T>(key: string): Promise<T | undefined> {
+    const database = await openDatabase();
+    const transaction = database.transaction([KV_STORE], 'readonly');
+    return requestToPromise(transaction.objectStore(KV_STORE).get(key));
+  },
+
+  async set<T>(key: string, value: T): Promise<void> {
+    const database = await openDatabase();
+    await runTransaction(database, [KV_STORE], 'readwrite', (tx) => {
+      tx.objectStore(KV_STORE).put(value, key);
+    });
+  },
+
+  async delete(key: string): Promise<void> {
+    const database = await openDatabase();
+    await runTransaction(database, [KV_STORE], 'readwrite', (tx) => {
+      tx.objectStore(KV_STORE).delete(key);
+    });
+  }
+};
+
+// Records stored individually by id
+export const collectionStore = {
+  async getAll<T>(storeName: CollectionStoreName): Promise<T[]> {
+    const database = await openDatabase();
+    const transaction = database.transaction([storeName], 'readonly');
+    return requestToPromise(transaction.objectStore(storeName).getAll());
+  },
+
+  // Write changed records and remove deleted ones in one transaction
+  async write<T>(storeName: CollectionStoreName, changed: T[], removedIds: string[]): Promise<void> {
+    const database = await openDatabase();
+    await runTransaction(database, [storeName], 'readwrite', (tx) => {
+      const store = tx.objectStore(storeName);
+      changed.forEach(record => store.put(record));
+      removedIds.forEach(id => store.delete(id));
+    });
+  }
+};
+
+// Session audio stored as blobs by session id
+export const recordingStore = {
+  async get(sessionId: string): Promise<Blob | undefined> {
+    const database = await openDatabase();
+    const transaction = database.transaction([RECORDINGS_STORE], 'readonly');
+    return requestToPromise(transaction.objectStore(RECORDINGS_STORE).get(sessionId));
+  },
+
+  async set(sessionId: string, audio: Blob): Promise<void> {
+    const database = await openDatabase();
+    await runTransaction(database, [RECORDINGS_STORE], 'readwrite', (tx) => {
+      tx.objectStore(RECORDINGS_STORE).put(audio, sessionId);
+    });
+  },
+
+  async delete(sessionId: string): Promise<void> {
+    const database = await openDatabase();
+    await runTransaction(database, [RECORDINGS_STORE], 'readwrite', (tx) => {
+      tx.objectStore(RECORDINGS_STORE).delete(sessionId);
+    });
+  }
+};
@@ -0,0 +1,60 @@
+import { ActionItem } from '../contexts/types';
+
+// Helpers for reading JSON produced by chat models. Models can wrap the object in prose or code
+// fences and can return fields of the wrong shape, so every field is checked before it is used.
+
+// Extract and parse the outermost JSON object in a model response, or null if there is none
+export function parseJsonObject(response: string): Record<string, unknown> | null {
+  const start = response.indexOf('{');
+  const end = response.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(response.slice(start, end + 1));
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+  } catch (error) {
+    console.error('Error parsing JSON from model response:', error);
+    return null;
+  }
+}
+
+// Read a string field, or an empty string if it is missing
+export function toText(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+// Read a list of non-empty strings, dropping anything else
+export function toStringList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((item): item is string => typeof item === 'string')
+    .map(item => item.trim())
+    .filter(item => item !== '');
+}
+
+// Read a list of action items. Plain strings are accepted as items without owner or due date.
+export function toActionItems(value: unknown): ActionItem[] {
+  if (!Array.isArray(value)) return [];
+
+  return value.flatMap((item): ActionItem[] => {
+    if (typeof item === 'string') {
+      return item.trim() ? [{ text: item.trim() }] : [];
+    }
+    if (!item || typeof item !== 'object') {
+      return [];
+    }
+
+    const { text, owner, due } = item as Record<string, unknown>;
+    if (!toText(text)) {
+      return [];
+    }
+
+    return [{
+      text: toText(text),
+      ...(toText(owner) ? { owner: toText(owner) } : {}),
+      ...(toText(due) ? { due: toText(due) } : {})
+    }];
+  });
+}
@@ -0,0 +1,102 @@
+import { getSupportedRecordingMimeType } from './audioEncoding';
+
+// Deliver recorder data in slices rather than as one buffer when recording stops
+const TIMESLICE_MS = 1000;
+
+// Result of a finished recording
+export interface RecordedAudio {
+  audio: Blob;
+  mimeType: string;
+  startTime: number;
+  duration: number;
+}
+
+// Records captured audio (Opus in WebM where supported) alongside recognition
+export class AudioRecorder {
+  private recorder: MediaRecorder | null = null;
+  private ownedStream: MediaStream | null = null;
+  private chunks: Blob[] = [];
+  private startTime: number = 0;
+  // Time spent paused so far, and when the current pause began
+  private pausedMs: number = 0;
+  private pauseStart: number | null = null;
+
+  // Record the given stream, or the default microphone when the speech provider does not expose one
+  async start(stream: MediaStream | null): Promise<void> {
+    if (!stream) {
+      this.ownedStream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    }
+
+    const mimeType = getSupportedRecordingMimeType();
+    this.recorder = new MediaRecorder(stream ?? this.ownedStream!, mimeType ? { mimeType } : undefined);
+    this.chunks = [];
+    this.recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        this.chunks.push(event.data);
+      }
+    };
+
+    this.recorder.start(TIMESLICE_MS);
+    this.startTime = Date.now();
+    this.pausedMs = 0;
+    this.pauseStart = null;
+    console.log('Audio recording started:', this.recorder.mimeType);
+  }
+
+  // Leave audio out of the recording until resumed
+  pause(): void {
+    if (this.recorder?.state === 'recording') {
+      this.recorder.pause();
+      this.pauseStart = Date.now();
+    }
+  }
+
+  resume(): void {
+    if (this.recorder?.state === 'paused') {
+      this.recorder.resume();
+      this.endPause();
+    }
+  }
+
+  // Stop recording and return the audio, or null if nothing was recorded
+  async stop(): Promise<RecordedAudio | null> {
+    const recorder = this.recorder;
+    if (!recorder) {
+      return null;
+    }
+
+    if (recorder.state !== 'inactive') {
+      await new Promise<void>((resolve) => {
+        recorder.addEventListener('stop', () => resolve(), { once: true });
+        recorder.stop();
+      });
+    }
+
+    this.endPause();
+    this.recorder = null;
+    this.ownedStream?.getTracks().forEach(track => track.stop());
+    this.ownedStream = null;
+
+    if (this.chunks.length === 0) {
+      return null;
+    }
+
+    const audio = new Blob(this.chunks, { type: recorder.mimeType });
+    this.chunks = [];
+
+    return {
+      audio,
+      mimeType: recorder.mimeType,
+      startTime: this.startTime,
+      // Paused stretches are not in the audio
+      duration: Date.now() - this.startTime - this.pausedMs
+    };
+  }
+
+  private endPause(): void {
+    if (this.pauseStart !== null) {
+      this.pausedMs += Date.now() - this.pauseStart;
+      this.pauseStart = null;
+    }
+  }
+}
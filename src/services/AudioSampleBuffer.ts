@@ -0,0 +1,88 @@
+// Rate voices are captured and compared at
+export const SPEAKER_SAMPLE_RATE = 16000;
+
+const PROCESSOR_BUFFER_SIZE = 4096;
+
+// How much audio is kept; segments are matched shortly after they are recognized
+const CAPACITY_SECONDS = 60;
+
+// Keeps the most recent audio of a stream as 16 kHz mono samples, so the audio behind a
+// recognized segment can be looked up by wall-clock time
+export class AudioSampleBuffer {
+  private audioContext: AudioContext | null = null;
+  private processor: ScriptProcessorNode | null = null;
+  private ownedStream: MediaStream | null = null;
+  private samples = new Float32Array(SPEAKER_SAMPLE_RATE * CAPACITY_SECONDS);
+  private written: number = 0;
+  private lastSampleTime: number = 0;
+
+  // Capture the given stream, or the default microphone when the speech provider does not expose one
+  async start(stream: MediaStream | null): Promise<void> {
+    if (!stream) {
+      this.ownedStream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    }
+
+    this.audioContext = new AudioContext({ sampleRate: SPEAKER_SAMPLE_RATE });
+    const source = this.audioContext.createMediaStreamSource(stream ?? this.ownedStream!);
+
+    // ScriptProcessorNode is deprecated but needs no separately bundled worklet module
+    this.processor = this.audioContext.createScriptProcessor(PROCESSOR_BUFFER_SIZE, 1, 1);
+    this.processor.onaudioprocess = (event) => {
+      const input = event.inputBuffer.getChannelData(0);
+      for (let i = 0; i < input.length; i++) {
+        this.samples[(this.written + i) % this.samples.length] = input[i];
+      }
+      this.written += input.length;
+      this.lastSampleTime = Date.now();
+    };
+    source.connect(this.processor);
+    // The processor only runs while connected to the graph output; it writes silence
+    this.processor.connect(this.audioContext.destination);
+  }
+
+  // Audio heard between two wall-clock times, clipped to what is still buffered
+  slice(startTime: number, endTime: number): Float32Array {
+    const toIndex = (time: number) =>
+      this.written - Math.round(((this.lastSampleTime - time) * SPEAKER_SAMPLE_RATE) / 1000);
+
+    const oldest = Math.max(0, this.written - this.samples.length);
+    const start = Math.max(oldest, Math.min(this.written, toIndex(startTime)));
+    const end = Math.max(start, Math.min(this.written, toIndex(endTime)));
+
+    const slice = new Float32Array(end - start);
+    for (let i = 0; i < slice.length; i++) {
+      slice[i] = this.samples[(start + i) % this.samples.length];
+    }
+    return slice;
+  }
+
+  stop(): void {
+    this.processor?.disconnect();
+    this.processor = null;
+    this.audioContext?.close().catch(console.error);
+    this.audioContext = null;
+    this.ownedStream?.getTracks().forEach(track => track.stop());
+    this.ownedStream = null;
+    this.written = 0;
+  }
+}
+
+// Record a voice sample from the microphone, e.g. to enroll a speaker
+export async function recordVoiceSample(durationMs: number, signal?: AbortSignal): Promise<Float32Array> {
+  const buffer = new AudioSampleBuffer();
+  await buffer.start(null);
+  const startTime = Date.now();
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(resolve, durationMs);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(new Error('Recording was canceled'));
+      }, { once: true });
+    });
+    return buffer.slice(startTime, Date.now());
+  } finally {
+    buffer.stop();
+  }
+}
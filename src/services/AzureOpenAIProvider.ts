@@ -0,0 +1,46 @@
+import { AzureOpenAIConfig } from '../types';
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+import { getContextWindow, isReasoningModel } from './TokenBudget';
+
+// The first version that takes max_completion_tokens, which reasoning models require
+const AZURE_OPENAI_API_VERSION = '2024-12-01-preview';
+
+// Azure OpenAI: deployment-scoped URLs and api-key authentication
+export class AzureOpenAIProvider extends OpenAICompatibleProvider {
+  readonly type = 'azure';
+  private config: AzureOpenAIConfig;
+
+  constructor(config: AzureOpenAIConfig) {
+    super();
+    this.config = config;
+  }
+
+  isConfigured(): boolean {
+    return !!(this.config.endpoint && this.config.subscriptionKey && this.config.deploymentName);
+  }
+
+  getModelName(): string {
+    return this.config.deploymentName;
+  }
+
+  getContextWindow(): number {
+    return getContextWindow(this.config.deploymentName, this.config.contextWindow);
+  }
+
+  // Deployment names are chosen freely, so the settings can say what the deployment runs
+  protected usesReasoningModel(): boolean {
+    return this.config.reasoningModel ?? isReasoningModel(this.config.deploymentName);
+  }
+
+  protected getChatCompletionsUrl(): string {
+    return `${this.trimUrl(this.config.endpoint)}/openai/deployments/${this.config.deploymentName}/chat/completions?api-version=${AZURE_OPENAI_API_VERSION}`;
+  }
+
+  protected getAuthHeaders(): Record<string, string> {
+    return { 'api-key': this.config.subscriptionKey };
+  }
+
+  protected getModel(): string | undefined {
+    return undefined;
+  }
+}
@@ -1,90 +1,315 @@
-import { TranscriptSegment } from '../contexts/types';
-import { AzureOpenAIConfig } from '../types';
+import { ContextUsage, MeetingMinutes, QAPair, SummaryChunk, TranscriptSegment } from '../contexts/types';
+import { ChatMessage, LLMProvider } from './LLMProvider';
+import { countMessageTokens, getPromptBudget, loadTokenCounter, selectContext, SelectedContext, TokenCounter } from './TokenBudget';
+import { parseJsonObject, toActionItems, toStringList, toText } from '../lib/structuredOutput';
+import { stripCitations } from '../lib/citations';
 
+// Content of a summary chunk as produced by the model
+export type SummaryContent = Pick<SummaryChunk, 'summary' | 'decisions' | 'actionItems' | 'topics' | 'risks' | 'contextUsage'>;
+
+// What a question can be answered from; the service picks what fits the model's context window
+export interface AnswerContext {
+  segments: TranscriptSegment[]; // Whole transcript, chronological
+  summaries?: SummaryChunk[]; // Stand in for older segments that do not fit
+  history?: QAPair[]; // Earlier turns of the question's thread, oldest first
+}
+
+// An answer with the transcript lines its citations number and the context it was given
+export interface AnswerResult {
+  answer: string;
+  lines: TranscriptSegment[];
+  usage?: ContextUsage; // Missing for questions answered without the model
+}
+
+// Upper bound on condense rounds, in case the model does not shorten its input
+const MAX_CONDENSE_ROUNDS = 4;
+
+// Tokens of earlier questions and answers sent along with a follow-up; older turns are dropped first
+const HISTORY_TOKEN_BUDGET = 1500;
+
+// Longest reply requested for a summary, an answer, minutes and condensed notes
+const SUMMARY_MAX_TOKENS = 700;
+const ANSWER_MAX_TOKENS = 400;
+const MINUTES_MAX_TOKENS = 1000;
+const CONDENSE_MAX_TOKENS = 600;
+
+// Tokens a line number such as [1234] and the line break add to a transcript line, at most
+const LINE_NUMBER_TOKENS = 5;
+
+// Attempts at fitting an answer's transcript before the prompt is sent as it is
+const MAX_SELECTION_PASSES = 3;
+
+// Builds summary and Q&A prompts and runs them through the configured chat model provider
 export class AzureOpenAIService {
-  private config: AzureOpenAIConfig;
+  private provider: LLMProvider;
 
-  constructor(config: AzureOpenAIConfig) {
-    this.config = config;
+  constructor(provider: LLMProvider) {
+    this.provider = provider;
   }
 
-  // Check if the service configuration is valid
+  // Check if the provider configuration is valid
   async checkConnection(): Promise<boolean> {
-    if (!this.config.endpoint || !this.config.subscriptionKey || !this.config.deploymentName) {
-      return false;
+    return this.provider.checkConnection();
+  }
+
+  // Generate a structured summary of one chunk of transcript segments. A chunk too long for one
+  // request, such as a long recording summarized after import, is summarized in consecutive parts
+  // whose results are merged.
+  async generateSummary(segments: TranscriptSegment[]): Promise<SummaryContent> {
+    if (!this.provider.isConfigured()) {
+      throw new Error('AI provider not properly configured');
     }
 
     try {
-      // Test connection with a simple API call
-      const response = await fetch(`${this.config.endpoint}/openai/deployments/${this.config.deploymentName}/chat/completions?api-version=2024-02-15-preview`, {
-        method: 'POST',
-        headers: {
-          'api-key': this.config.subscriptionKey,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          messages: [{ role: 'user', content: 'test' }],
-          max_tokens: 5,
-        }),
-      });
+      const countTokens = await loadTokenCounter(this.provider.getModelName());
+      const contextWindow = this.provider.getContextWindow();
+      const budget = getPromptBudget(contextWindow, SUMMARY_MAX_TOKENS)
+        - countMessageTokens(this.buildSummaryMessages(''), countTokens);
+
+      const parts = this.splitSegments(segments, budget, segment => countTokens(this.formatTranscript([segment])) + 1);
+      const results = await Promise.all(parts.map(async part => {
+        const messages = this.buildSummaryMessages(this.formatTranscript(part));
+        const response = await this.provider.createChatCompletion({
+          messages,
+          maxTokens: SUMMARY_MAX_TOKENS,
+          temperature: 0.3,
+          jsonMode: true,
+        });
+        return { content: this.parseSummary(response), promptTokens: countMessageTokens(messages, countTokens) };
+      }));
+
+      return {
+        ...this.mergeSummaries(results.map(result => result.content)),
+        contextUsage: {
+          promptTokens: Math.max(...results.map(result => result.promptTokens)),
+          contextWindow,
+          segmentsIncluded: segments.length,
+          segmentsTotal: segments.length,
+          summariesIncluded: 0
+        }
+      };
 
-      return response.ok;
     } catch (error) {
-      console.error('Azure OpenAI Service connection test failed:', error);
-      return false;
+      console.error('Error generating summary:', error);
+      throw error;
     }
   }
 
-  // Generate a summary from transcript segments
-  async generateSummary(segments: TranscriptSegment[]): Promise<string> {
-    if (!this.config.endpoint || !this.config.subscriptionKey || !this.config.deploymentName) {
-      throw new Error('Azure OpenAI service not properly configured');
+  private buildSummaryMessages(transcriptText: string): ChatMessage[] {
+    return [
+      {
+        role: 'system',
+        content: 'You are a helpful assistant that creates concise summaries of conversations. Respond with a single JSON object and nothing else, using exactly these keys: "summary" (a short paragraph of the key points), "decisions" (array of strings), "actionItems" (array of objects with "text", plus "owner" and "due" when they were named), "topics" (array of short topic names), "risks" (array of strings). Use empty arrays when there is nothing to report. Refer to speakers by the names the transcript gives them.'
+      },
+      {
+        role: 'user',
+        content: `Please create a summary of the following part of a conversation transcript:\n\n${transcriptText}`
+      }
+    ];
+  }
+
+  // Split segments into consecutive parts that each fit the token budget. A single segment
+  // longer than the budget still gets a part of its own.
+  private splitSegments(
+    segments: TranscriptSegment[],
+    budget: number,
+    segmentTokens: (segment: TranscriptSegment) => number
+  ): TranscriptSegment[][] {
+    const parts: TranscriptSegment[][] = [];
+    let current: TranscriptSegment[] = [];
+    let tokens = 0;
+
+    for (const segment of segments) {
+      const cost = segmentTokens(segment);
+      if (current.length > 0 && tokens + cost > budget) {
+        parts.push(current);
+        current = [];
+        tokens = 0;
+      }
+      current.push(segment);
+      tokens += cost;
     }
 
-    try {
-      const transcriptText = segments.map(segment =>
-        `[${new Date(segment.timestamp).toLocaleTimeString()}] ${segment.speakerId}: ${segment.text}`
-      ).join('\n');
-
-      const response = await fetch(`${this.config.endpoint}/openai/deployments/${this.config.deploymentName}/chat/completions?api-version=2024-02-15-preview`, {
-        method: 'POST',
-        headers: {
-          'api-key': this.config.subscriptionKey,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          messages: [
-            {
-              role: 'system',
-              content: 'You are a helpful assistant that creates concise summaries of conversations. Focus on key points, decisions made, and action items.'
-            },
-            {
-              role: 'user',
-              content: `Please create a summary of the following conversation transcript:\n\n${transcriptText}`
-            }
-          ],
-          max_tokens: 500,
-          temperature: 0.3,
-        }),
-      });
+    if (current.length > 0) {
+      parts.push(current);
+    }
+
+    return parts;
+  }
+
+  // Combine the summaries of consecutive parts into one, in order
+  private mergeSummaries(contents: SummaryContent[]): SummaryContent {
+    if (contents.length === 1) {
+      return contents[0];
+    }
+
+    return {
+      summary: contents.map(content => content.summary).join('\n\n'),
+      decisions: contents.flatMap(content => content.decisions ?? []),
+      actionItems: contents.flatMap(content => content.actionItems ?? []),
+      topics: [...new Set(contents.flatMap(content => content.topics ?? []))],
+      risks: contents.flatMap(content => content.risks ?? [])
+    };
+  }
+
+  // Read the summary JSON, falling back to the raw text as the summary if it cannot be parsed
+  private parseSummary(response: string): SummaryContent {
+    const parsed = parseJsonObject(response);
+    const summary = parsed ? toText(parsed.summary) : '';
+
+    if (!parsed || !summary) {
+      return {
+        summary: response.trim() || 'Unable to generate summary',
+        decisions: [],
+        actionItems: [],
+        topics: [],
+        risks: []
+      };
+    }
+
+    return {
+      summary,
+      decisions: toStringList(parsed.decisions),
+      actionItems: toActionItems(parsed.actionItems),
+      topics: toStringList(parsed.topics),
+      risks: toStringList(parsed.risks)
+    };
+  }
+
+  // Build meeting minutes from a session's summary chunks. Chunks are condensed in groups until they
+  // fit the model's context window in one request, then reduced into the final structured minutes.
+  async generateMeetingMinutes(summaries: SummaryChunk[]): Promise<MeetingMinutes> {
+    if (!this.provider.isConfigured()) {
+      throw new Error('AI provider not properly configured');
+    }
+
+    let notes = summaries.map(chunk => {
+      const start = new Date(chunk.startTime).toLocaleTimeString();
+      const end = new Date(chunk.endTime).toLocaleTimeString();
+      const details = [
+        ...(chunk.decisions ?? []).map(decision => `Decision: ${decision}`),
+        ...(chunk.actionItems ?? []).map(item =>
+          `Action item: ${item.text}${item.owner ? ` (owner: ${item.owner})` : ''}${item.due ? ` (due: ${item.due})` : ''}`
+        ),
+        ...(chunk.risks ?? []).map(risk => `Risk: ${risk}`)
+      ];
+      return [`[${start} - ${end}]`, chunk.summary, ...details].join('\n');
+    });
+
+    const countTokens = await loadTokenCounter(this.provider.getModelName());
+    const contextWindow = this.provider.getContextWindow();
+    const minutesBudget = getPromptBudget(contextWindow, MINUTES_MAX_TOKENS)
+      - countMessageTokens(this.buildMinutesMessages(''), countTokens);
+    const condenseBudget = getPromptBudget(contextWindow, CONDENSE_MAX_TOKENS)
+      - countMessageTokens(this.buildCondenseMessages(''), countTokens);
+    // Each note plus the blank line that separates it from the next
+    const noteTokens = (note: string) => countTokens(note) + 1;
+
+    for (
+      let round = 0;
+      round < MAX_CONDENSE_ROUNDS && notes.length > 1 && notes.reduce((sum, note) => sum + noteTokens(note), 0) > minutesBudget;
+      round++
+    ) {
+      const groups = this.groupNotes(notes, condenseBudget, noteTokens);
+      notes = await Promise.all(groups.map(group => this.condenseNotes(group)));
+    }
 
-      if (!response.ok) {
-        throw new Error(`OpenAI API call failed: ${response.status} ${response.statusText}`);
+    const response = await this.provider.createChatCompletion({
+      messages: this.buildMinutesMessages(notes.join('\n\n')),
+      maxTokens: MINUTES_MAX_TOKENS,
+      temperature: 0.2,
+      jsonMode: true,
+    });
+
+    return {
+      ...this.parseMinutes(response),
+      createdAt: Date.now(),
+      summaryIds: summaries.map(chunk => chunk.id)
+    };
+  }
+
+  private buildMinutesMessages(notesText: string): ChatMessage[] {
+    return [
+      {
+        role: 'system',
+        content: 'You write meeting minutes from chronological notes of a meeting. Respond with a single JSON object and nothing else, using exactly these keys: "overview" (a short paragraph), "decisions" (array of strings), "actionItems" (array of objects with "text", plus "owner" and "due" when they were named), "openQuestions" (array of strings), "nextSteps" (array of strings). Use empty arrays when there is nothing to report.'
+      },
+      {
+        role: 'user',
+        content: `Meeting notes:\n\n${notesText}`
       }
+    ];
+  }
 
-      const data = await response.json();
-      return data.choices[0]?.message?.content || 'Unable to generate summary';
+  // Split notes into consecutive groups that each fit one condense request
+  private groupNotes(notes: string[], budget: number, noteTokens: (note: string) => number): string[][] {
+    const groups: string[][] = [];
+    let current: string[] = [];
+    let tokens = 0;
 
-    } catch (error) {
-      console.error('Error generating summary:', error);
-      throw error;
+    for (const note of notes) {
+      const cost = noteTokens(note);
+      if (current.length > 0 && tokens + cost > budget) {
+        groups.push(current);
+        current = [];
+        tokens = 0;
+      }
+      current.push(note);
+      tokens += cost;
+    }
+
+    if (current.length > 0) {
+      groups.push(current);
+    }
+
+    return groups;
+  }
+
+  // Merge consecutive notes into one shorter note that keeps decisions, owners and open points
+  private async condenseNotes(notes: string[]): Promise<string> {
+    const condensed = await this.provider.createChatCompletion({
+      messages: this.buildCondenseMessages(notes.join('\n\n')),
+      maxTokens: CONDENSE_MAX_TOKENS,
+      temperature: 0.2,
+    });
+
+    return condensed || notes.join('\n\n');
+  }
+
+  private buildCondenseMessages(notesText: string): ChatMessage[] {
+    return [
+      {
+        role: 'system',
+        content: 'You condense chronological meeting notes. Keep every decision, action item with its owner, open question and agreed next step. Drop small talk and repetition.'
+      },
+      {
+        role: 'user',
+        content: `Condense these consecutive meeting notes into one set of notes:\n\n${notesText}`
+      }
+    ];
+  }
+
+  // Read the minutes JSON from a model response, keeping the raw text as overview if it cannot be parsed
+  private parseMinutes(response: string): Omit<MeetingMinutes, 'createdAt' | 'summaryIds'> {
+    const parsed = parseJsonObject(response);
+
+    if (!parsed) {
+      return { overview: response.trim(), decisions: [], actionItems: [], openQuestions: [], nextSteps: [] };
     }
+
+    return {
+      overview: toText(parsed.overview),
+      decisions: toStringList(parsed.decisions),
+      actionItems: toActionItems(parsed.actionItems),
+      openQuestions: toStringList(parsed.openQuestions),
+      nextSteps: toStringList(parsed.nextSteps)
+    };
   }
 
   // Answer a question based on the transcript context
-  async answerQuestion(question: string, context: TranscriptSegment[] = []): Promise<string> {
-    if (!this.config.endpoint || !this.config.subscriptionKey || !this.config.deploymentName) {
-      throw new Error('Azure OpenAI service not properly configured');
+  async answerQuestion(question: string, context: TranscriptSegment[] = [], history: QAPair[] = []): Promise<string> {
+    if (!this.provider.isConfigured()) {
+      throw new Error('AI provider not properly configured');
     }
 
     try {
@@ -94,72 +319,215 @@ export class AzureOpenAIService {
         return realtimeAnswer;
       }
 
-      const contextText = context.length > 0
-        ? context.map(segment =>
-            `[${new Date(segment.timestamp).toLocaleTimeString()}] ${segment.speakerId}: ${segment.text}`
-          ).join('\n')
-        : '';
-
-      // Enhanced system prompt that handles both contextual and general questions
-      const systemPrompt = context.length > 0
-        ? 'You are a helpful assistant that can answer questions using conversation context when relevant, or provide general knowledge answers when the question is not related to the conversation. If the question is about the conversation, use the transcript to provide accurate answers. For general questions (like current time, weather, general knowledge), answer normally even if they are not related to the conversation context.'
-        : 'You are a helpful assistant that answers questions clearly and concisely. Provide accurate and helpful responses to any question asked.';
-
-      let userPrompt: string;
-
-      if (contextText) {
-        // Check if the question seems to be about the conversation
-        const conversationKeywords = ['conversation', 'discuss', 'mention', 'talk about', 'said', 'spoke', 'meeting', 'call'];
-        const isAboutConversation = conversationKeywords.some(keyword =>
-          question.toLowerCase().includes(keyword)
-        );
-
-        if (isAboutConversation) {
-          userPrompt = `Based on this conversation transcript:\n\n${contextText}\n\nQuestion: ${question}\n\nPlease answer the question using information from the conversation above.`;
-        } else {
-          userPrompt = `I have this conversation context available if needed:\n\n${contextText}\n\nQuestion: ${question}\n\nPlease answer this question. If it's related to the conversation above, use that information. Otherwise, provide a general answer.`;
-        }
-      } else {
-        userPrompt = `Question: ${question}`;
-      }
+      const { messages } = await this.prepareAnswer(question, { segments: context, history });
+      const completion = await this.provider.createChatCompletion({
+        messages,
+        maxTokens: ANSWER_MAX_TOKENS,
+        temperature: 0.7,
+      });
+      return completion || 'Unable to generate answer';
 
-      const response = await fetch(`${this.config.endpoint}/openai/deployments/${this.config.deploymentName}/chat/completions?api-version=2024-02-15-preview`, {
-        method: 'POST',
-        headers: {
-          'api-key': this.config.subscriptionKey,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          messages: [
-            {
-              role: 'system',
-              content: systemPrompt
-            },
-            {
-              role: 'user',
-              content: userPrompt
-            }
-          ],
-          max_tokens: 400,
+    } catch (error) {
+      console.error('Error answering question:', error);
+      throw error;
+    }
+  }
+
+  // Answer a question and report the answer token by token as the model produces it. The answer
+  // cites the returned lines by 1-based position; resolveCitations maps them to segment ids.
+  // A stopped answer resolves with the text received so far.
+  async answerQuestionStream(
+    question: string,
+    context: AnswerContext,
+    onToken: (token: string) => void,
+    signal?: AbortSignal
+  ): Promise<AnswerResult> {
+    if (!this.provider.isConfigured()) {
+      throw new Error('AI provider not properly configured');
+    }
+
+    // Real-time questions are answered locally in one piece
+    const realtimeAnswer = this.handleRealTimeQuestion(question);
+    if (realtimeAnswer) {
+      onToken(realtimeAnswer);
+      return { answer: realtimeAnswer, lines: [] };
+    }
+
+    let answer = '';
+    let lines: TranscriptSegment[] = [];
+    let usage: ContextUsage | undefined;
+
+    try {
+      const prepared = await this.prepareAnswer(question, context);
+      ({ lines, usage } = prepared);
+
+      answer = await this.provider.streamChatCompletion(
+        {
+          messages: prepared.messages,
+          maxTokens: ANSWER_MAX_TOKENS,
           temperature: 0.7,
-        }),
-      });
+        },
+        (token) => {
+          answer += token;
+          onToken(token);
+        },
+        signal
+      );
+    } catch (error) {
+      if (!signal?.aborted) {
+        throw error;
+      }
+    }
 
-      if (!response.ok) {
-        throw new Error(`OpenAI API call failed: ${response.status} ${response.statusText}`);
+    return { answer, lines, usage };
+  }
+
+  // Fit the question's context into the model's context window. The thread history is kept first,
+  // within its own budget; the transcript gets what is left, abridged by selectContext when it
+  // is too long.
+  private async prepareAnswer(
+    question: string,
+    context: AnswerContext
+  ): Promise<{ messages: ChatMessage[]; lines: TranscriptSegment[]; usage: ContextUsage }> {
+    const countTokens = await loadTokenCounter(this.provider.getModelName());
+    const contextWindow = this.provider.getContextWindow();
+    const historyMessages = this.buildHistoryMessages(context.history ?? [], countTokens);
+
+    // Lines are counted once, however often the selection runs
+    const lineTokens = new Map<string, number>();
+    const segmentTokens = (segment: TranscriptSegment) => {
+      let tokens = lineTokens.get(segment.id);
+      if (tokens === undefined) {
+        tokens = countTokens(this.formatTranscript([segment])) + LINE_NUMBER_TOKENS;
+        lineTokens.set(segment.id, tokens);
       }
+      return tokens;
+    };
 
-      const data = await response.json();
-      const answer = data.choices[0]?.message?.content || 'Unable to generate answer';
+    const select = (budget: number) => {
+      const selected = selectContext(
+        question,
+        context.segments,
+        context.summaries ?? [],
+        Math.max(0, budget),
+        segmentTokens,
+        summary => countTokens(this.formatSummary(summary)) + 1
+      );
+      const messages = this.buildAnswerMessages(question, selected, historyMessages);
+      return { selected, messages, promptTokens: countMessageTokens(messages, countTokens) };
+    };
 
-      // Check and handle real-time questions that AI models can't answer
-      const realTimeAnswer = this.handleRealTimeQuestion(question);
-      return realTimeAnswer || answer;
+    // The transcript gets what the prompt without it leaves. A transcript with context is framed by
+    // a longer prompt, and an abridged one adds headers and a note, so the built prompt is counted
+    // and, while it overshoots, the transcript is selected again with that much less.
+    const promptBudget = getPromptBudget(contextWindow, ANSWER_MAX_TOKENS);
+    let transcriptBudget = promptBudget - countMessageTokens(
+      this.buildAnswerMessages(question, { segments: [], summaries: [] }, historyMessages),
+      countTokens
+    );
+    let prompt = select(transcriptBudget);
+    for (let pass = 1; pass < MAX_SELECTION_PASSES && prompt.promptTokens > promptBudget; pass++) {
+      transcriptBudget -= prompt.promptTokens - promptBudget;
+      prompt = select(transcriptBudget);
+    }
 
-    } catch (error) {
-      console.error('Error answering question:', error);
-      throw error;
+    return {
+      messages: prompt.messages,
+      lines: prompt.selected.segments,
+      usage: {
+        promptTokens: prompt.promptTokens,
+        contextWindow,
+        segmentsIncluded: prompt.selected.segments.length,
+        segmentsTotal: context.segments.length,
+        summariesIncluded: prompt.selected.summaries.length
+      }
+    };
+  }
+
+  // One line per segment. Speakers appear as the segments name them, so callers pass segments
+  // with display names in place of provider ids. Numbered lines start with their 1-based position,
+  // which answers cite.
+  private formatTranscript(segments: TranscriptSegment[], numbered: boolean = false): string {
+    return segments.map((segment, index) =>
+      `${numbered ? `[${index + 1}] ` : ''}[${new Date(segment.timestamp).toLocaleTimeString()}] ${segment.speakerId ?? 'Unknown'}: ${segment.text}`
+    ).join('\n');
+  }
+
+  // A summary chunk as one paragraph headed by its time range
+  private formatSummary(summary: SummaryChunk): string {
+    const start = new Date(summary.startTime).toLocaleTimeString();
+    const end = new Date(summary.endTime).toLocaleTimeString();
+    return `[${start} - ${end}] ${summary.summary}`;
+  }
+
+  // Build the system and user prompts for a question with optional transcript context,
+  // preceded by the thread's earlier turns. Summaries of earlier parts come before the lines.
+  private buildAnswerMessages(question: string, context: SelectedContext, historyMessages: ChatMessage[]): ChatMessage[] {
+    const transcriptText = this.formatTranscript(context.segments, true);
+    const contextText = context.summaries.length > 0
+      ? `Summaries of earlier parts of the conversation:\n\n${context.summaries.map(summary => this.formatSummary(summary)).join('\n\n')}\n\nTranscript lines:\n\n${transcriptText}`
+      : transcriptText;
+
+    // Enhanced system prompt that handles both contextual and general questions
+    let systemPrompt = contextText
+      ? 'You are a helpful assistant that can answer questions using conversation context when relevant, or provide general knowledge answers when the question is not related to the conversation. If the question is about the conversation, use the transcript to provide accurate answers. For general questions (like current time, weather, general knowledge), answer normally even if they are not related to the conversation context. Each transcript line starts with its number in square brackets; right after each statement based on the conversation, cite the lines it relies on, like [4] or [4, 7].'
+      : 'You are a helpful assistant that answers questions clearly and concisely. Provide accurate and helpful responses to any question asked.';
+
+    if (context.summaries.length > 0) {
+      systemPrompt += ' The transcript is too long to include in full: summaries of earlier parts come first, followed by the most recent lines and older lines relevant to the question. Summaries have no line numbers and are not cited.';
     }
+
+    let userPrompt: string;
+
+    if (contextText) {
+      // Check if the question seems to be about the conversation
+      const conversationKeywords = ['conversation', 'discuss', 'mention', 'talk about', 'said', 'spoke', 'meeting', 'call'];
+      const isAboutConversation = conversationKeywords.some(keyword =>
+        question.toLowerCase().includes(keyword)
+      );
+
+      if (isAboutConversation) {
+        userPrompt = `Based on this conversation transcript:\n\n${contextText}\n\nQuestion: ${question}\n\nPlease answer the question using information from the conversation above.`;
+      } else {
+        userPrompt = `I have this conversation context available if needed:\n\n${contextText}\n\nQuestion: ${question}\n\nPlease answer this question. If it's related to the conversation above, use that information. Otherwise, provide a general answer.`;
+      }
+    } else {
+      userPrompt = `Question: ${question}`;
+    }
+
+    return [
+      {
+        role: 'system',
+        content: historyMessages.length > 0
+          ? `${systemPrompt} Earlier questions and answers of this conversation come first; resolve follow-ups such as "who owns that?" against them.`
+          : systemPrompt
+      },
+      ...historyMessages,
+      {
+        role: 'user',
+        content: userPrompt
+      }
+    ];
+  }
+
+  // Earlier turns as chat history, keeping the most recent ones that fit the history budget
+  private buildHistoryMessages(history: QAPair[], countTokens: TokenCounter): ChatMessage[] {
+    const messages: ChatMessage[] = [];
+    let tokens = 0;
+
+    for (let i = history.length - 1; i >= 0; i--) {
+      const { question, answer } = history[i];
+      if (!answer) continue;
+
+      // Citations refer to line numbers of an earlier prompt, so they are left out
+      const turn: ChatMessage[] = [{ role: 'user', content: question }, { role: 'assistant', content: stripCitations(answer) }];
+      tokens += countMessageTokens(turn, countTokens);
+      if (tokens > HISTORY_TOKEN_BUDGET) break;
+
+      messages.unshift(...turn);
+    }
+
+    return messages;
   }
 
   // Handle real-time questions that AI models can't answer
@@ -186,8 +554,8 @@ export class AzureOpenAIService {
     return null; // Not a real-time question, let AI handle it
   }
 
-  // Update service configuration
-  updateConfig(config: AzureOpenAIConfig): void {
-    this.config = config;
+  // Switch to a different or reconfigured provider
+  setProvider(provider: LLMProvider): void {
+    this.provider = provider;
   }
 }
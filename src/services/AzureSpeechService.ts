@@ -1,17 +1,76 @@
-import { TranscriptSegment } from '../contexts/types';
+import { AudioSource, PendingSegment, TranscriptSegment, TranscriptWord } from '../contexts/types';
 import { AzureSTTConfig } from '../types';
 import * as speechsdk from 'microsoft-cognitiveservices-speech-sdk';
+import { SystemAudioCapture } from './SystemAudioCapture';
+import {
+  FileTranscriptionOptions,
+  RecognitionOptions,
+  RecognitionStatusEvent,
+  SpeechProvider,
+  SpeechProviderCapabilities
+} from './SpeechProvider';
+import { decodeAudioFile, toPcm16 } from './audioEncoding';
+
+// Audio files are decoded to the push stream's default format
+const FILE_SAMPLE_RATE = 16000;
+
+// Result offsets and durations are reported in 100-nanosecond ticks
+const TICKS_PER_MS = 10000;
+
+// Restarts after recognition fails, with the delay doubling after each failed attempt
+const MAX_RECOVERY_ATTEMPTS = 6;
+const RECOVERY_BASE_DELAY_MS = 1000;
+const RECOVERY_MAX_DELAY_MS = 30000;
+
+// Authorization tokens last ten minutes; running recognizers get a new one before it runs out
+const TOKEN_REFRESH_INTERVAL_MS = 8 * 60 * 1000;
+
+// The service accepts at most this many phrases in a phrase list
+const MAX_PHRASES = 500;
+
+// Confidence assumed for results without detailed output
+const DEFAULT_CONFIDENCE = 0.9;
+
+// The parts of a detailed-format result JSON that segments are built from
+interface DetailedResult {
+  Offset?: number;
+  NBest?: {
+    Confidence?: number;
+    Words?: { Word: string; Offset: number; Duration: number; Confidence?: number }[];
+  }[];
+}
+
+export class AzureSpeechService implements SpeechProvider {
+  readonly type = 'azure';
+  readonly capabilities: SpeechProviderCapabilities = {
+    speakerDiarization: true,
+    languageDetection: true,
+    systemAudio: true,
+    fileTranscription: true,
+    runsLocally: false
+  };
 
-export class AzureSpeechService {
   private config: AzureSTTConfig;
   private onSegmentReceived: (segment: TranscriptSegment) => void;
+  private onInterimReceived: (segment: PendingSegment | null) => void = () => {};
+  private onStatusChanged: (event: RecognitionStatusEvent) => void = () => {};
   private recognizer: speechsdk.SpeechRecognizer | null = null;
   private conversationTranscriber: speechsdk.ConversationTranscriber | null = null;
+  private systemAudioCapture: SystemAudioCapture | null = null;
   private isListening: boolean = false;
+  // Wall-clock time live audio started; result offsets count from it
+  private audioStartTime: number = 0;
+  // Recognition was started and not stopped or paused, so failures are recovered from
+  private shouldListen: boolean = false;
+  private isPaused: boolean = false;
+  private recoveryAttempt: number = 0;
+  private recoveryTimer: ReturnType<typeof setTimeout> | null = null;
+  // When the current outage began, while recovering from one
+  private gapStartTime: number | null = null;
   private authToken: string | null = null;
   private tokenExpiry: number | null = null;
+  private tokenRefreshTimer: ReturnType<typeof setInterval> | null = null;
   private useSpeakerDiarization: boolean = true; // Enable speaker diarization by default
-  private simulateSpeakers: boolean = true; // Simulate multiple speakers when real diarization isn't available
 
   constructor(
     config: AzureSTTConfig,
@@ -19,6 +78,7 @@ export class AzureSpeechService {
   ) {
     this.config = config;
     this.onSegmentReceived = onSegmentReceived;
+    this.useSpeakerDiarization = config.enableSpeakerDiarization ?? true;
   }
 
   // Check if the service configuration is valid and get an auth token
@@ -64,20 +124,30 @@ export class AzureSpeechService {
     return this.authToken;
   }
 
-  // Create speech configuration
-  private createSpeechConfig(): speechsdk.SpeechConfig {
-    const speechConfig = speechsdk.SpeechConfig.fromSubscription(
-      this.config.subscriptionKey,
-      this.config.region
-    );
+  // Create speech configuration, authenticated with a short-lived token instead of the subscription key
+  private createSpeechConfig(authToken: string): speechsdk.SpeechConfig {
+    const speechConfig = speechsdk.SpeechConfig.fromAuthorizationToken(authToken, this.config.region);
+
+    // Recognize with a Custom Speech model when one is deployed
+    if (this.config.endpointId?.trim()) {
+      speechConfig.endpointId = this.config.endpointId.trim();
+    }
+
+    // Recognize in the first candidate language unless auto-detection overrides it
+    speechConfig.speechRecognitionLanguage = this.getCandidateLanguages()[0];
 
-    // Don't set custom endpoint for now to avoid conflicts
-    // if (this.config.endpoint && this.config.endpoint.startsWith('https://')) {
-    //   speechConfig.endpointId = this.config.endpoint;
-    // }
+    // Re-evaluate the language throughout the session rather than only on the first utterance
+    if (this.shouldDetectLanguage()) {
+      speechConfig.setProperty(
+        speechsdk.PropertyId.SpeechServiceConnection_LanguageIdMode,
+        this.config.continuousLanguageIdentification ? 'Continuous' : 'AtStart'
+      );
+    }
 
-    // Always set a default language for now
-    speechConfig.speechRecognitionLanguage = 'en-US';
+    // Detailed output carries each result's confidence and word timings
+    speechConfig.outputFormat = speechsdk.OutputFormat.Detailed;
+    speechConfig.requestWordLevelTimestamps();
+    speechConfig.setServiceProperty('wordLevelConfidence', 'true', speechsdk.ServicePropertyChannel.UriQueryParameter);
 
     // Enable speaker diarization
     speechConfig.setProperty(
@@ -89,7 +159,7 @@ export class AzureSpeechService {
   }
 
   // Start speech recognition using Azure Speech Service
-  async startRecognition(audioSource: 'microphone' | 'system'): Promise<void> {
+  async startRecognition(audioSource: AudioSource, options: RecognitionOptions = {}): Promise<void> {
     if (this.isListening) {
       return;
     }
@@ -103,82 +173,504 @@ export class AzureSpeechService {
       // Get authentication token
       const authToken = await this.getAuthToken();
 
-      const speechConfig = this.createSpeechConfig();
-      const audioConfig = speechsdk.AudioConfig.fromDefaultMicrophoneInput();
+      const audioConfig = await this.createAudioConfig(audioSource, options);
+      await this.startRecognizers(audioConfig, authToken);
+      this.shouldListen = true;
+    } catch (error) {
+      console.error('Error starting speech recognition:', error);
+      this.isListening = false;
+      this.releaseSystemAudio();
+      throw error;
+    }
+  }
 
-      // Create standard recognizer (disable language detection temporarily)
-      console.log('Using standard recognition with language:', speechConfig.speechRecognitionLanguage);
-      this.recognizer = new speechsdk.SpeechRecognizer(speechConfig, audioConfig);
+  // Start the transcriber or recognizer on the given audio input
+  private async startRecognizers(audioConfig: speechsdk.AudioConfig, authToken: string): Promise<void> {
+    const speechConfig = this.createSpeechConfig(authToken);
+    const autoDetectConfig = this.createAutoDetectConfig();
+    this.audioStartTime = Date.now();
 
-      // TODO: Re-enable language detection once basic functionality is working
-      // if (this.config.enableLanguageDetection &&
-      //     this.config.candidateLanguages?.length &&
-      //     this.config.candidateLanguages.length > 0) {
-      //   // Language detection logic will be re-enabled later
-      // }
-
-      // Event handlers
-      this.recognizer.recognizing = (sender, e) => {
-        // Only log interim results, don't add them to transcript to avoid duplicates
-        if (e.result.reason === speechsdk.ResultReason.RecognizingSpeech) {
-          console.log('Interim result:', e.result.text);
-          // Don't call onSegmentReceived here to avoid duplicates
-        }
-      };
+    if (this.useSpeakerDiarization) {
+      await this.startTranscription(speechConfig, audioConfig, autoDetectConfig);
+    } else {
+      await this.startStandardRecognition(speechConfig, audioConfig, autoDetectConfig);
+    }
 
-      this.recognizer.recognized = (sender, e) => {
-        if (e.result.reason === speechsdk.ResultReason.RecognizedSpeech && e.result.text.trim()) {
-          const speakerId = this.simulateSpeakers && Math.random() > 0.5 ? 'Speaker 1' : 'User';
-
-          this.onSegmentReceived({
-            id: Date.now().toString() + Math.random().toString(36).substr(2, 9), // More unique ID
-            text: e.result.text,
-            timestamp: Date.now(),
-            confidence: 0.9,
-            speakerId: speakerId,
-            isQuestion: this.isQuestion(e.result.text.trim())
-          });
-        }
-      };
+    this.tokenRefreshTimer = setInterval(() => this.refreshRecognizerToken(), TOKEN_REFRESH_INTERVAL_MS);
+  }
 
-      this.recognizer.canceled = (s, e) => {
-        console.log(`CANCELED: Reason=${e.reason}`);
-        if (e.reason === speechsdk.CancellationReason.Error) {
-          console.error(`CANCELED: ErrorCode=${e.errorCode}`);
-          console.error(`CANCELED: ErrorDetails=${e.errorDetails}`);
+  // Hand the running transcriber or recognizer a fresh token. If that fails, the recognizer is
+  // canceled once its token runs out and recovery gets a new one.
+  private async refreshRecognizerToken(): Promise<void> {
+    try {
+      const authToken = await this.getAuthToken();
+      if (this.conversationTranscriber) {
+        this.conversationTranscriber.authorizationToken = authToken;
+      }
+      if (this.recognizer) {
+        this.recognizer.authorizationToken = authToken;
+      }
+    } catch (error) {
+      console.error('Error refreshing Azure Speech authorization token:', error);
+    }
+  }
+
+  // Create the audio input for the selected source
+  private async createAudioConfig(
+    audioSource: AudioSource,
+    options: RecognitionOptions
+  ): Promise<speechsdk.AudioConfig> {
+    if (audioSource === 'system') {
+      this.systemAudioCapture = new SystemAudioCapture();
+      return this.systemAudioCapture.start({
+        mixMicrophone: options.mixMicrophone,
+        onEnded: () => this.handleSourceEnded()
+      });
+    }
+
+    return speechsdk.AudioConfig.fromDefaultMicrophoneInput();
+  }
+
+  // Sharing ended from the browser UI. The recognizer stops without an error, so recovery would not
+  // notice; report it so the recording is stopped.
+  private handleSourceEnded(): void {
+    this.isListening = false;
+    this.cancelRecovery();
+    this.onStatusChanged({ type: 'sourceEnded' });
+  }
+
+  // Stop the display capture, if any
+  private releaseSystemAudio(): void {
+    if (this.systemAudioCapture) {
+      this.systemAudioCapture.stop();
+      this.systemAudioCapture = null;
+    }
+  }
+
+  // Start conversation transcription, which labels each utterance with the speaker the service identified
+  private startTranscription(
+    speechConfig: speechsdk.SpeechConfig,
+    audioConfig: speechsdk.AudioConfig,
+    autoDetectConfig: speechsdk.AutoDetectSourceLanguageConfig | null
+  ): Promise<void> {
+    if (autoDetectConfig) {
+      console.log('Using conversation transcription with language detection:', this.getCandidateLanguages().join(', '));
+      this.conversationTranscriber = speechsdk.ConversationTranscriber.FromConfig(speechConfig, autoDetectConfig, audioConfig);
+    } else {
+      console.log('Using conversation transcription with language:', speechConfig.speechRecognitionLanguage);
+      this.conversationTranscriber = new speechsdk.ConversationTranscriber(speechConfig, audioConfig);
+    }
+    this.applyPhraseList(this.conversationTranscriber);
+    this.watchConnection(this.conversationTranscriber);
+
+    // Event handlers
+    this.conversationTranscriber.transcribing = (sender, e) => {
+      if (e.result.reason === speechsdk.ResultReason.RecognizingSpeech) {
+        const language = speechsdk.AutoDetectSourceLanguageResult.fromConversationTranscriptionResult(e.result).language;
+        this.emitInterim(e.result.text, e.result.speakerId || 'Unknown', language);
+      }
+    };
+
+    this.conversationTranscriber.transcribed = (sender, e) => {
+      if (e.result.reason === speechsdk.ResultReason.RecognizedSpeech && e.result.text.trim()) {
+        // The service reports 'Unknown' until it has enough audio to tell voices apart
+        const language = speechsdk.AutoDetectSourceLanguageResult.fromConversationTranscriptionResult(e.result).language;
+        this.emitSegment(e.result, e.result.speakerId || 'Unknown', language, this.audioStartTime);
+      } else {
+        // Noise the service heard as speech ends without a final result
+        this.onInterimReceived(null);
+      }
+    };
+
+    this.conversationTranscriber.canceled = (s, e) => this.handleCanceled(e);
+
+    this.conversationTranscriber.sessionStarted = (s, e) => {
+      console.log('Azure Conversation Transcription session started');
+      this.isListening = true;
+    };
+
+    this.conversationTranscriber.sessionStopped = (s, e) => {
+      console.log('Azure Conversation Transcription session stopped');
+      this.isListening = false;
+    };
+
+    // Start continuous transcription
+    console.log('Starting Azure Conversation Transcription...');
+    return new Promise((resolve, reject) => {
+      this.conversationTranscriber!.startTranscribingAsync(
+        () => {
+          console.log('Azure Conversation Transcription started successfully');
+          this.isListening = true;
+          resolve();
+        },
+        (err) => {
+          console.error('Error starting Azure Conversation Transcription:', err);
           this.isListening = false;
-          console.error('Speech recognition error:', e.errorDetails);
+          reject(new Error(`Failed to start conversation transcription: ${err}`));
         }
-      };
+      );
+    });
+  }
 
-      this.recognizer.sessionStarted = (s, e) => {
-        console.log('Azure Speech Recognition session started');
-        this.isListening = true;
-      };
+  // Start plain continuous recognition without speaker attribution
+  private startStandardRecognition(
+    speechConfig: speechsdk.SpeechConfig,
+    audioConfig: speechsdk.AudioConfig,
+    autoDetectConfig: speechsdk.AutoDetectSourceLanguageConfig | null
+  ): Promise<void> {
+    if (autoDetectConfig) {
+      console.log('Using standard recognition with language detection:', this.getCandidateLanguages().join(', '));
+      this.recognizer = speechsdk.SpeechRecognizer.FromConfig(speechConfig, autoDetectConfig, audioConfig);
+    } else {
+      console.log('Using standard recognition with language:', speechConfig.speechRecognitionLanguage);
+      this.recognizer = new speechsdk.SpeechRecognizer(speechConfig, audioConfig);
+    }
+    this.applyPhraseList(this.recognizer);
+    this.watchConnection(this.recognizer);
+
+    // Event handlers
+    this.recognizer.recognizing = (sender, e) => {
+      if (e.result.reason === speechsdk.ResultReason.RecognizingSpeech) {
+        const language = speechsdk.AutoDetectSourceLanguageResult.fromResult(e.result).language;
+        this.emitInterim(e.result.text, undefined, language);
+      }
+    };
 
-      this.recognizer.sessionStopped = (s, e) => {
-        console.log('Azure Speech Recognition session stopped');
-        this.isListening = false;
-      };
+    this.recognizer.recognized = (sender, e) => {
+      if (e.result.reason === speechsdk.ResultReason.RecognizedSpeech && e.result.text.trim()) {
+        const language = speechsdk.AutoDetectSourceLanguageResult.fromResult(e.result).language;
+        this.emitSegment(e.result, undefined, language, this.audioStartTime);
+      } else {
+        this.onInterimReceived(null);
+      }
+    };
+
+    this.recognizer.canceled = (s, e) => this.handleCanceled(e);
+
+    this.recognizer.sessionStarted = (s, e) => {
+      console.log('Azure Speech Recognition session started');
+      this.isListening = true;
+    };
+
+    this.recognizer.sessionStopped = (s, e) => {
+      console.log('Azure Speech Recognition session stopped');
+      this.isListening = false;
+    };
 
-      // Start continuous recognition
-      console.log('Starting Azure Speech Recognition...');
-      this.recognizer.startContinuousRecognitionAsync(
+    // Start continuous recognition
+    console.log('Starting Azure Speech Recognition...');
+    return new Promise((resolve, reject) => {
+      this.recognizer!.startContinuousRecognitionAsync(
         () => {
           console.log('Azure Speech Recognition started successfully');
           this.isListening = true;
+          resolve();
         },
         (err) => {
           console.error('Error starting Azure Speech Recognition:', err);
           this.isListening = false;
-          throw new Error(`Failed to start speech recognition: ${err}`);
+          reject(new Error(`Failed to start speech recognition: ${err}`));
         }
       );
+    });
+  }
+
+  // Transcribe an audio file by decoding it and feeding the samples through a push stream.
+  // Uses its own recognizer, so it does not interfere with live recognition state.
+  async transcribeFile(file: File, options: FileTranscriptionOptions): Promise<void> {
+    if (!this.config.endpoint || !this.config.subscriptionKey || !this.config.region) {
+      throw new Error('Azure Speech Service not configured. Please set endpoint, subscription key, and region.');
+    }
+
+    const authToken = await this.getAuthToken();
+
+    const samples = await decodeAudioFile(file, FILE_SAMPLE_RATE);
+    const durationMs = (samples.length / FILE_SAMPLE_RATE) * 1000;
+
+    const pushStream = speechsdk.AudioInputStream.createPushStream(
+      speechsdk.AudioStreamFormat.getWaveFormatPCM(FILE_SAMPLE_RATE, 16, 1)
+    );
+    pushStream.write(toPcm16(samples));
+    pushStream.close();
+
+    const speechConfig = this.createSpeechConfig(authToken);
+    const audioConfig = speechsdk.AudioConfig.fromStreamInput(pushStream);
+    const autoDetectConfig = this.createAutoDetectConfig();
+
+    // Time a result from the file start and report how far into the file it reaches
+    const emitFileResult = (result: speechsdk.RecognitionResult, speakerId: string | undefined, language: string) => {
+      this.emitSegment(result, speakerId, language, options.startTime);
+      options.onProgress?.(Math.min(1, (result.offset + result.duration) / TICKS_PER_MS / durationMs));
+    };
+
+    return new Promise((resolve, reject) => {
+      let stop: () => void;
+      let settled = false;
+
+      const onAbort = () => {
+        stop();
+        finish();
+      };
+
+      // Stopping raises sessionStopped or canceled as well, so settle only once
+      const finish = (error?: Error) => {
+        if (settled) return;
+        settled = true;
+        options.signal?.removeEventListener('abort', onAbort);
+        if (error) {
+          reject(error);
+        } else {
+          options.onProgress?.(1);
+          resolve();
+        }
+      };
+
+      const onCanceled = (e: speechsdk.CancellationEventArgs) => {
+        if (e.reason === speechsdk.CancellationReason.Error) {
+          console.error('File transcription canceled:', e.errorDetails);
+          stop();
+          finish(new Error(`File transcription failed: ${e.errorDetails}`));
+        }
+      };
+
+      if (this.useSpeakerDiarization) {
+        const transcriber = autoDetectConfig
+          ? speechsdk.ConversationTranscriber.FromConfig(speechConfig, autoDetectConfig, audioConfig)
+          : new speechsdk.ConversationTranscriber(speechConfig, audioConfig);
+        this.applyPhraseList(transcriber);
+
+        transcriber.transcribed = (sender, e) => {
+          if (e.result.reason === speechsdk.ResultReason.RecognizedSpeech && e.result.text.trim()) {
+            const language = speechsdk.AutoDetectSourceLanguageResult.fromConversationTranscriptionResult(e.result).language;
+            emitFileResult(e.result, e.result.speakerId || 'Unknown', language);
+          }
+        };
+        transcriber.canceled = (s, e) => onCanceled(e);
+        // The session stops on its own once the closed stream has been read to the end
+        transcriber.sessionStopped = () => {
+          stop();
+          finish();
+        };
+
+        stop = () => transcriber.stopTranscribingAsync(() => transcriber.close(), () => transcriber.close());
+        transcriber.startTranscribingAsync(undefined, (err) => finish(new Error(`Failed to start file transcription: ${err}`)));
+      } else {
+        const recognizer = autoDetectConfig
+          ? speechsdk.SpeechRecognizer.FromConfig(speechConfig, autoDetectConfig, audioConfig)
+          : new speechsdk.SpeechRecognizer(speechConfig, audioConfig);
+        this.applyPhraseList(recognizer);
+
+        recognizer.recognized = (sender, e) => {
+          if (e.result.reason === speechsdk.ResultReason.RecognizedSpeech && e.result.text.trim()) {
+            const language = speechsdk.AutoDetectSourceLanguageResult.fromResult(e.result).language;
+            emitFileResult(e.result, undefined, language);
+          }
+        };
+        recognizer.canceled = (s, e) => onCanceled(e);
+        recognizer.sessionStopped = () => {
+          stop();
+          finish();
+        };
+
+        stop = () => recognizer.stopContinuousRecognitionAsync(() => recognizer.close(), () => recognizer.close());
+        recognizer.startContinuousRecognitionAsync(undefined, (err) => finish(new Error(`Failed to start file transcription: ${err}`)));
+      }
+
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  // Build a transcript segment from a final recognition result and hand it to the listener.
+  // The segment is timed by its offset into the audio, which started at audioStartTime.
+  private emitSegment(
+    result: speechsdk.RecognitionResult,
+    speakerId: string | undefined,
+    language: string | undefined,
+    audioStartTime: number
+  ): void {
+    const text = result.text;
+    const offset = result.offset / TICKS_PER_MS;
+    const { confidence, words } = this.parseDetailedResult(result);
+
+    // Results are coming through again, so a later outage starts over with short delays
+    this.recoveryAttempt = 0;
+
+    this.onSegmentReceived({
+      id: Date.now().toString() + Math.random().toString(36).substr(2, 9), // More unique ID
+      text,
+      timestamp: audioStartTime + offset,
+      confidence,
+      speakerId,
+      // Without auto-detection the result carries no locale, so fall back to the configured one
+      language: language || this.getCandidateLanguages()[0],
+      isQuestion: this.isQuestion(text.trim()),
+      offset,
+      duration: result.duration / TICKS_PER_MS,
+      words
+    });
+  }
+
+  // Read the confidence and word timings of the best hypothesis from the detailed output
+  private parseDetailedResult(result: speechsdk.RecognitionResult): { confidence: number; words?: TranscriptWord[] } {
+    let detailed: DetailedResult;
+    try {
+      detailed = JSON.parse(result.json);
     } catch (error) {
-      console.error('Error starting speech recognition:', error);
+      return { confidence: DEFAULT_CONFIDENCE };
+    }
+
+    const best = detailed.NBest?.[0];
+    if (!best) {
+      return { confidence: DEFAULT_CONFIDENCE };
+    }
+
+    // Words come in lexical form ("twenty five"); show the display form ("25") when it lines up word for word
+    const displayWords = result.text.trim().split(/\s+/);
+    const useDisplayForm = best.Words?.length === displayWords.length;
+    // Word offsets count from the same origin as the phrase offset
+    const phraseOffset = detailed.Offset ?? result.offset;
+
+    const words = best.Words?.map((word, index) => ({
+      text: useDisplayForm ? displayWords[index] : word.Word,
+      offset: Math.max(0, (word.Offset - phraseOffset) / TICKS_PER_MS),
+      duration: word.Duration / TICKS_PER_MS,
+      confidence: word.Confidence
+    }));
+
+    return { confidence: best.Confidence ?? DEFAULT_CONFIDENCE, words };
+  }
+
+  // Hand the hypothesis for the utterance in progress to the listener
+  private emitInterim(text: string, speakerId?: string, language?: string): void {
+    if (!text.trim()) {
+      return;
+    }
+
+    this.onInterimReceived({
+      text,
+      speakerId,
+      timestamp: Date.now(),
+      language: language || this.getCandidateLanguages()[0]
+    });
+  }
+
+  // Whether language identification is enabled and has candidates to choose from
+  private shouldDetectLanguage(): boolean {
+    return !!this.config.enableLanguageDetection && this.getCandidateLanguages().length > 0;
+  }
+
+  // Build the auto-detect configuration from the candidate languages, or null when detection is off
+  private createAutoDetectConfig(): speechsdk.AutoDetectSourceLanguageConfig | null {
+    if (!this.shouldDetectLanguage()) {
+      return null;
+    }
+
+    // The service accepts up to 4 candidates for at-start and up to 10 for continuous identification
+    const maxCandidates = this.config.continuousLanguageIdentification ? 10 : 4;
+    const candidates = this.getCandidateLanguages();
+    if (candidates.length > maxCandidates) {
+      console.warn(`Only the first ${maxCandidates} candidate languages are used for detection`);
+    }
+
+    return speechsdk.AutoDetectSourceLanguageConfig.fromLanguages(candidates.slice(0, maxCandidates));
+  }
+
+  // Boost the active vocabulary profile's phrases so product names and acronyms are recognized
+  private applyPhraseList(recognizer: speechsdk.Recognizer | speechsdk.ConversationTranscriber): void {
+    const profile = this.config.vocabularyProfiles?.find(p => p.id === this.config.activeVocabularyProfileId);
+    const phrases = profile?.phrases.map(phrase => phrase.trim()).filter(Boolean) ?? [];
+    if (!profile || phrases.length === 0) {
+      return;
+    }
+
+    if (phrases.length > MAX_PHRASES) {
+      console.warn(`Only the first ${MAX_PHRASES} phrases of "${profile.name}" are used`);
+    }
+
+    speechsdk.PhraseListGrammar.fromRecognizer(recognizer).addPhrases(phrases.slice(0, MAX_PHRASES));
+    console.log(`Using vocabulary "${profile.name}" with ${Math.min(phrases.length, MAX_PHRASES)} phrases`);
+  }
+
+  // Handle cancellation from either the recognizer or the transcriber
+  private handleCanceled(e: speechsdk.CancellationEventArgs): void {
+    console.log(`CANCELED: Reason=${e.reason}`);
+    if (e.reason === speechsdk.CancellationReason.Error) {
+      console.error(`CANCELED: ErrorCode=${e.errorCode}`);
+      console.error(`CANCELED: ErrorDetails=${e.errorDetails}`);
       this.isListening = false;
-      throw error;
+      if (this.shouldListen) {
+        this.scheduleRecovery(e.errorDetails);
+      }
+    }
+  }
+
+  // Restart recognition after a failure, waiting longer after each failed attempt, and give up
+  // after MAX_RECOVERY_ATTEMPTS
+  private scheduleRecovery(error: string): void {
+    if (this.recoveryTimer) {
+      return;
     }
+
+    if (this.gapStartTime === null) {
+      this.gapStartTime = Date.now();
+    }
+    this.closeRecognizers();
+
+    if (this.recoveryAttempt >= MAX_RECOVERY_ATTEMPTS) {
+      console.error('Speech recognition could not be recovered:', error);
+      this.shouldListen = false;
+      this.recoveryAttempt = 0;
+      this.gapStartTime = null;
+      this.releaseSystemAudio();
+      this.onStatusChanged({ type: 'failed', error: `Could not reconnect (${error})` });
+      return;
+    }
+
+    const delayMs = Math.min(RECOVERY_MAX_DELAY_MS, RECOVERY_BASE_DELAY_MS * 2 ** this.recoveryAttempt);
+    this.recoveryAttempt++;
+    console.warn(`Restarting speech recognition in ${delayMs} ms (attempt ${this.recoveryAttempt}):`, error);
+    this.onStatusChanged({ type: 'reconnecting', attempt: this.recoveryAttempt, delayMs, error });
+
+    this.recoveryTimer = setTimeout(() => {
+      this.recoveryTimer = null;
+      this.restartRecognition();
+    }, delayMs);
+  }
+
+  // Start a new recognizer on the same audio source
+  private async restartRecognition(): Promise<void> {
+    if (!this.shouldListen) {
+      return;
+    }
+
+    try {
+      // The token may have run out during the outage
+      const authToken = await this.getAuthToken();
+      await this.startRecognizers(this.reopenAudioConfig(), authToken);
+    } catch (error) {
+      this.scheduleRecovery(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  // New audio input on the source recognition was started with, without asking to share again
+  private reopenAudioConfig(): speechsdk.AudioConfig {
+    return this.systemAudioCapture
+      ? this.systemAudioCapture.renewAudioConfig()
+      : speechsdk.AudioConfig.fromDefaultMicrophoneInput();
+  }
+
+  // A restarted recognizer reaching the service ends the outage
+  private watchConnection(recognizer: speechsdk.Recognizer | speechsdk.ConversationTranscriber): void {
+    speechsdk.Connection.fromRecognizer(recognizer).connected = () => {
+      if (this.gapStartTime === null) {
+        return;
+      }
+
+      const gapStart = this.gapStartTime;
+      this.gapStartTime = null;
+      console.log('Speech recognition recovered');
+      this.onStatusChanged({ type: 'recovered', gapStart, gapEnd: Date.now() });
+    };
   }
 
   // Stop speech recognition
@@ -187,6 +679,59 @@ export class AzureSpeechService {
 
     // Set listening to false first to prevent auto-restart
     this.isListening = false;
+    this.isPaused = false;
+    this.cancelRecovery();
+
+    this.closeRecognizers();
+    this.releaseSystemAudio();
+  }
+
+  // Close the recognizer so no audio reaches the service. System audio capture keeps running
+  // so resuming does not ask to share again; the SDK releases the microphone on close.
+  async pauseRecognition(): Promise<void> {
+    if (!this.shouldListen) {
+      return;
+    }
+
+    this.isListening = false;
+    this.isPaused = true;
+    this.cancelRecovery();
+
+    this.closeRecognizers();
+    this.systemAudioCapture?.detachStream();
+    console.log('Azure Speech Recognition paused');
+  }
+
+  // Start a new recognizer on the paused audio source
+  async resumeRecognition(): Promise<void> {
+    if (!this.isPaused) {
+      return;
+    }
+
+    const authToken = await this.getAuthToken();
+    await this.startRecognizers(this.reopenAudioConfig(), authToken);
+    this.isPaused = false;
+    this.shouldListen = true;
+    console.log('Azure Speech Recognition resumed');
+  }
+
+  // Stop recovering from failures, e.g. because recognition was stopped on purpose
+  private cancelRecovery(): void {
+    this.shouldListen = false;
+    if (this.recoveryTimer) {
+      clearTimeout(this.recoveryTimer);
+      this.recoveryTimer = null;
+    }
+    this.recoveryAttempt = 0;
+    this.gapStartTime = null;
+  }
+
+  // Stop and close the running transcriber or recognizer, leaving the audio capture running
+  private closeRecognizers(): void {
+    if (this.tokenRefreshTimer) {
+      clearInterval(this.tokenRefreshTimer);
+      this.tokenRefreshTimer = null;
+    }
 
     if (this.conversationTranscriber) {
       try {
@@ -238,11 +783,32 @@ export class AzureSpeechService {
   // Update service configuration
   updateConfig(config: AzureSTTConfig): void {
     this.config = config;
+    this.useSpeakerDiarization = config.enableSpeakerDiarization ?? true;
     // Clear auth token so it gets refreshed with new config
     this.authToken = null;
     this.tokenExpiry = null;
   }
 
+  // The captured system audio; microphone input is read by the SDK itself and is not exposed
+  getMediaStream(): MediaStream | null {
+    return this.systemAudioCapture?.getMediaStream() ?? null;
+  }
+
+  // Replace the callback that receives final transcript segments
+  setSegmentHandler(handler: (segment: TranscriptSegment) => void): void {
+    this.onSegmentReceived = handler;
+  }
+
+  // Replace the callback that receives interim hypotheses
+  setInterimHandler(handler: (segment: PendingSegment | null) => void): void {
+    this.onInterimReceived = handler;
+  }
+
+  // Replace the callback that is told about outages and recovery
+  setStatusHandler(handler: (event: RecognitionStatusEvent) => void): void {
+    this.onStatusChanged = handler;
+  }
+
   // Toggle speaker diarization
   setSpeakerDiarization(enabled: boolean): void {
     this.useSpeakerDiarization = enabled;
@@ -254,17 +820,6 @@ export class AzureSpeechService {
     return this.useSpeakerDiarization;
   }
 
-  // Toggle speaker simulation (for when real diarization isn't working)
-  setSimulateSpeakers(enabled: boolean): void {
-    this.simulateSpeakers = enabled;
-    console.log(`Speaker simulation ${enabled ? 'enabled' : 'disabled'}`);
-  }
-
-  // Get speaker simulation status
-  getSimulateSpeakersEnabled(): boolean {
-    return this.simulateSpeakers;
-  }
-
   // Get current listening state
   getIsListening(): boolean {
     return this.isListening;
@@ -289,7 +844,7 @@ export class AzureSpeechService {
 
   // Get candidate languages
   getCandidateLanguages(): string[] {
-    return this.config.candidateLanguages || ['en-US'];
+    return this.config.candidateLanguages?.length ? this.config.candidateLanguages : ['en-US'];
   }
 
   // Helper method to detect if text is a question
@@ -0,0 +1,39 @@
+import { SpeakerIdConfig } from '../types';
+import { encodeWav } from './audioEncoding';
+import { SpeakerEmbedder } from './SpeakerEmbedder';
+
+// Sends voice samples as WAV to a speaker recognition service (e.g. a small server around
+// SpeechBrain or pyannote) that replies with { "embedding": number[] }
+export class HttpSpeakerEmbedder implements SpeakerEmbedder {
+  readonly backend = 'http' as const;
+  private config: SpeakerIdConfig;
+
+  constructor(config: SpeakerIdConfig) {
+    this.config = config;
+  }
+
+  async embed(samples: Float32Array, sampleRate: number): Promise<number[]> {
+    if (!this.config.endpoint) {
+      throw new Error('Speaker recognition service not configured. Please set the endpoint URL.');
+    }
+
+    const response = await fetch(this.config.endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'audio/wav',
+        ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {})
+      },
+      body: encodeWav(samples, sampleRate)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Speaker recognition call failed: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    if (!Array.isArray(data?.embedding) || !data.embedding.every((value: unknown) => typeof value === 'number')) {
+      throw new Error('Speaker recognition service returned no embedding');
+    }
+    return data.embedding;
+  }
+}
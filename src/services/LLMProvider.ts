@@ -0,0 +1,42 @@
+import { LLMProviderType } from '../contexts/types';
+
+// A single chat message in OpenAI chat completions format
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// Parameters for one chat completion request
+export interface ChatCompletionRequest {
+  messages: ChatMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  jsonMode?: boolean; // Ask the model to reply with a single JSON object
+}
+
+// Common surface of every chat model backend
+export interface LLMProvider {
+  readonly type: LLMProviderType;
+
+  // Whether enough settings are present to send a request
+  isConfigured(): boolean;
+
+  // Model or deployment name, which decides the tokenizer prompts are counted with
+  getModelName(): string;
+
+  // Tokens one request may hold, prompt and answer together
+  getContextWindow(): number;
+
+  // Verify the provider is reachable with a minimal request
+  checkConnection(): Promise<boolean>;
+
+  // Run a chat completion and return the assistant message text
+  createChatCompletion(request: ChatCompletionRequest): Promise<string>;
+
+  // Run a streaming chat completion, reporting each token as it arrives, and return the full text
+  streamChatCompletion(
+    request: ChatCompletionRequest,
+    onToken: (token: string) => void,
+    signal?: AbortSignal
+  ): Promise<string>;
+}
@@ -0,0 +1,39 @@
+import { LocalLLMConfig } from '../types';
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+import { getContextWindow } from './TokenBudget';
+
+// Self-hosted OpenAI-compatible server such as Ollama, llama.cpp or vLLM.
+// The API key is optional because most local servers do not check it.
+export class LocalLLMProvider extends OpenAICompatibleProvider {
+  readonly type = 'local';
+  private config: LocalLLMConfig;
+
+  constructor(config: LocalLLMConfig) {
+    super();
+    this.config = config;
+  }
+
+  isConfigured(): boolean {
+    return !!(this.config.endpoint && this.config.model);
+  }
+
+  getModelName(): string {
+    return this.config.model;
+  }
+
+  getContextWindow(): number {
+    return getContextWindow(this.config.model, this.config.contextWindow);
+  }
+
+  protected getChatCompletionsUrl(): string {
+    return `${this.trimUrl(this.config.endpoint)}/chat/completions`;
+  }
+
+  protected getAuthHeaders(): Record<string, string> {
+    return this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {};
+  }
+
+  protected getModel(): string | undefined {
+    return this.config.model;
+  }
+}
@@ -0,0 +1,123 @@
+import { SpeakerEmbedder } from './SpeakerEmbedder';
+
+const FRAME_SIZE = 512; // Power of two for the FFT; 32 ms at 16 kHz
+const HOP_SIZE = 256;
+const MEL_BANDS = 26;
+const MIN_FREQUENCY = 100;
+const MAX_FREQUENCY = 7000;
+// Cepstral coefficients 1..12; coefficient 0 only tracks loudness
+const CEPSTRAL_COEFFICIENTS = 12;
+// Frames quieter than this, relative to the loudest, are treated as silence
+const SILENCE_RATIO = 1e-3;
+
+// Stand-in speaker embedding computed in the browser: the mean and spread of the voice's
+// cepstral coefficients. It tells a handful of distinct voices apart in a quiet room but is far
+// from a trained speaker model; point the http backend at one for dependable matches.
+export class LocalSpeakerEmbedder implements SpeakerEmbedder {
+  readonly backend = 'local' as const;
+
+  async embed(samples: Float32Array, sampleRate: number): Promise<number[]> {
+    const filters = createMelFilters(sampleRate);
+    const window = Array.from({ length: FRAME_SIZE }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (FRAME_SIZE - 1)));
+
+    const frames: { energy: number; cepstrum: number[] }[] = [];
+    const real = new Float64Array(FRAME_SIZE);
+    const imag = new Float64Array(FRAME_SIZE);
+
+    for (let start = 0; start + FRAME_SIZE <= samples.length; start += HOP_SIZE) {
+      for (let i = 0; i < FRAME_SIZE; i++) {
+        real[i] = samples[start + i] * window[i];
+        imag[i] = 0;
+      }
+      fft(real, imag);
+
+      const power = new Float64Array(FRAME_SIZE / 2 + 1);
+      let energy = 0;
+      for (let bin = 0; bin < power.length; bin++) {
+        power[bin] = real[bin] * real[bin] + imag[bin] * imag[bin];
+        energy += power[bin];
+      }
+
+      const logMel = filters.map(filter => Math.log(filter.reduce((sum, weight, bin) => sum + weight * power[bin], 0) + 1e-10));
+      frames.push({ energy, cepstrum: dct(logMel).slice(1, CEPSTRAL_COEFFICIENTS + 1) });
+    }
+
+    const loudest = Math.max(0, ...frames.map(frame => frame.energy));
+    const voiced = frames.filter(frame => frame.energy > loudest * SILENCE_RATIO && frame.energy > 0);
+    if (voiced.length < 2) {
+      throw new Error('No speech was found in the audio sample');
+    }
+
+    const means = Array.from({ length: CEPSTRAL_COEFFICIENTS }, (_, k) =>
+      voiced.reduce((sum, frame) => sum + frame.cepstrum[k], 0) / voiced.length
+    );
+    const deviations = means.map((mean, k) =>
+      Math.sqrt(voiced.reduce((sum, frame) => sum + (frame.cepstrum[k] - mean) ** 2, 0) / voiced.length)
+    );
+    // Higher coefficients are naturally smaller; weight them up so the lowest do not dominate
+    const lifter = (value: number, k: number) => value * (k + 1);
+    return [...means.map(lifter), ...deviations.map(lifter)];
+  }
+}
+
+// Triangular filters spaced evenly on the mel scale, as weights per FFT bin
+function createMelFilters(sampleRate: number): number[][] {
+  const toMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+  const toHz = (mel: number) => 700 * (10 ** (mel / 2595) - 1);
+
+  const maxFrequency = Math.min(MAX_FREQUENCY, sampleRate / 2);
+  const minMel = toMel(MIN_FREQUENCY);
+  const melStep = (toMel(maxFrequency) - minMel) / (MEL_BANDS + 1);
+  const edges = Array.from({ length: MEL_BANDS + 2 }, (_, i) => (toHz(minMel + i * melStep) * FRAME_SIZE) / sampleRate);
+
+  return Array.from({ length: MEL_BANDS }, (_, band) => {
+    const [low, center, high] = [edges[band], edges[band + 1], edges[band + 2]];
+    return Array.from({ length: FRAME_SIZE / 2 + 1 }, (_, bin) => {
+      if (bin <= low || bin >= high) return 0;
+      return bin <= center ? (bin - low) / (center - low) : (high - bin) / (high - center);
+    });
+  });
+}
+
+// Type-II discrete cosine transform
+function dct(values: number[]): number[] {
+  const n = values.length;
+  return values.map((_, k) =>
+    values.reduce((sum, value, i) => sum + value * Math.cos((Math.PI * k * (2 * i + 1)) / (2 * n)), 0)
+  );
+}
+
+// In-place iterative radix-2 FFT; the length must be a power of two
+function fft(real: Float64Array, imag: Float64Array): void {
+  const n = real.length;
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const evenIndex = start + k;
+        const oddIndex = evenIndex + size / 2;
+        const oddReal = real[oddIndex] * cos - imag[oddIndex] * sin;
+        const oddImag = real[oddIndex] * sin + imag[oddIndex] * cos;
+        real[oddIndex] = real[evenIndex] - oddReal;
+        imag[oddIndex] = imag[evenIndex] - oddImag;
+        real[evenIndex] += oddReal;
+        imag[evenIndex] += oddImag;
+      }
+    }
+  }
+}
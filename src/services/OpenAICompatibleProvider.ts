@@ -0,0 +1,195 @@
+import { LLMProviderType } from '../contexts/types';
+import { ChatCompletionRequest, LLMProvider } from './LLMProvider';
+import { isReasoningModel } from './TokenBudget';
+
+// Tokens a reasoning model may think for on top of the reply, which max_completion_tokens also covers
+const REASONING_TOKEN_ALLOWANCE = 4000;
+
+// Shared request handling for every backend that speaks the OpenAI chat completions API.
+// Subclasses only decide where the request goes and how it is authenticated.
+export abstract class OpenAICompatibleProvider implements LLMProvider {
+  abstract readonly type: LLMProviderType;
+
+  abstract isConfigured(): boolean;
+
+  abstract getModelName(): string;
+
+  abstract getContextWindow(): number;
+
+  // Full URL of the chat completions endpoint
+  protected abstract getChatCompletionsUrl(): string;
+
+  // Authentication headers for the request
+  protected abstract getAuthHeaders(): Record<string, string>;
+
+  // Model name sent in the body; Azure selects the model through the deployment URL instead
+  protected abstract getModel(): string | undefined;
+
+  // Whether the model reasons before it answers, which changes the parameters it accepts
+  protected usesReasoningModel(): boolean {
+    return isReasoningModel(this.getModelName());
+  }
+
+  // Check connection with a minimal completion
+  async checkConnection(): Promise<boolean> {
+    if (!this.isConfigured()) {
+      return false;
+    }
+
+    try {
+      const response = await this.postChatCompletion({
+        messages: [{ role: 'user', content: 'test' }],
+        maxTokens: 5,
+      });
+
+      return response.ok;
+    } catch (error) {
+      console.error(`${this.type} LLM provider connection test failed:`, error);
+      return false;
+    }
+  }
+
+  // Run a chat completion and return the assistant message text
+  async createChatCompletion(request: ChatCompletionRequest): Promise<string> {
+    if (!this.isConfigured()) {
+      throw new Error('AI provider not properly configured');
+    }
+
+    let response = await this.postChatCompletion(request);
+
+    // Older models reject response_format; retry once and rely on the prompt alone. Other bad
+    // requests would fail again, so they are reported as they are.
+    if (response.status === 400 && request.jsonMode && await this.namesResponseFormat(response)) {
+      console.warn(`${this.type} LLM provider rejected JSON mode, retrying without it`);
+      response = await this.postChatCompletion({ ...request, jsonMode: false });
+    }
+
+    if (!response.ok) {
+      throw new Error(`OpenAI API call failed: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return data.choices[0]?.message?.content || '';
+  }
+
+  // Run a streaming chat completion and parse the server-sent events as they arrive
+  async streamChatCompletion(
+    request: ChatCompletionRequest,
+    onToken: (token: string) => void,
+    signal?: AbortSignal
+  ): Promise<string> {
+    if (!this.isConfigured()) {
+      throw new Error('AI provider not properly configured');
+    }
+
+    const response = await this.postChatCompletion(request, { stream: true, signal });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`OpenAI API call failed: ${response.status} ${response.statusText}`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+
+    // Stop reading when the caller aborts, even if the server keeps the connection open
+    const cancel = () => reader.cancel().catch(() => {});
+    signal?.addEventListener('abort', cancel);
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+
+        buffer += decoder.decode(value, { stream: true });
+
+        // Events are separated by newlines; keep the trailing partial line for the next chunk
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+          const token = this.parseStreamLine(line);
+          if (token === null) {
+            return text;
+          }
+          if (token) {
+            text += token;
+            onToken(token);
+          }
+        }
+      }
+
+      return text;
+    } finally {
+      signal?.removeEventListener('abort', cancel);
+    }
+  }
+
+  // Extract the content delta from one SSE line. Returns null for the [DONE] marker.
+  private parseStreamLine(line: string): string | null {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('data:')) {
+      return '';
+    }
+
+    const payload = trimmed.slice('data:'.length).trim();
+    if (payload === '[DONE]') {
+      return null;
+    }
+
+    try {
+      const data = JSON.parse(payload);
+      return data.choices?.[0]?.delta?.content || '';
+    } catch (error) {
+      console.warn('Skipping malformed stream chunk:', payload);
+      return '';
+    }
+  }
+
+  // Whether an error response blames the response_format parameter. Reads a copy, so the
+  // response can still be read afterwards.
+  private async namesResponseFormat(response: Response): Promise<boolean> {
+    try {
+      return (await response.clone().text()).includes('response_format');
+    } catch (error) {
+      return false;
+    }
+  }
+
+  // Send the request body shared by all OpenAI-compatible servers
+  protected postChatCompletion(
+    request: ChatCompletionRequest,
+    options: { stream?: boolean; signal?: AbortSignal } = {}
+  ): Promise<Response> {
+    const model = this.getModel();
+
+    // Reasoning models reject max_tokens and any temperature but the default
+    const limits = this.usesReasoningModel()
+      ? { max_completion_tokens: request.maxTokens && request.maxTokens + REASONING_TOKEN_ALLOWANCE }
+      : { max_tokens: request.maxTokens, temperature: request.temperature };
+
+    return fetch(this.getChatCompletionsUrl(), {
+      method: 'POST',
+      headers: {
+        ...this.getAuthHeaders(),
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        ...(model ? { model } : {}),
+        messages: request.messages,
+        ...limits,
+        ...(request.jsonMode ? { response_format: { type: 'json_object' } } : {}),
+        ...(options.stream ? { stream: true } : {}),
+      }),
+      signal: options.signal,
+    });
+  }
+
+  // Strip trailing slashes so paths can be appended safely
+  protected trimUrl(url: string): string {
+    return url.replace(/\/+$/, '');
+  }
+}
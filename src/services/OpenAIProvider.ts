@@ -0,0 +1,40 @@
+import { OpenAIConfig } from '../types';
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+import { getContextWindow } from './TokenBudget';
+
+const OPENAI_API_BASE_URL = 'https://api.openai.com/v1';
+
+// OpenAI platform: bearer authentication and a model name in the request body
+export class OpenAIProvider extends OpenAICompatibleProvider {
+  readonly type = 'openai';
+  private config: OpenAIConfig;
+
+  constructor(config: OpenAIConfig) {
+    super();
+    this.config = config;
+  }
+
+  isConfigured(): boolean {
+    return !!(this.config.apiKey && this.config.model);
+  }
+
+  getModelName(): string {
+    return this.config.model;
+  }
+
+  getContextWindow(): number {
+    return getContextWindow(this.config.model, this.config.contextWindow);
+  }
+
+  protected getChatCompletionsUrl(): string {
+    return `${OPENAI_API_BASE_URL}/chat/completions`;
+  }
+
+  protected getAuthHeaders(): Record<string, string> {
+    return { Authorization: `Bearer ${this.config.apiKey}` };
+  }
+
+  protected getModel(): string | undefined {
+    return this.config.model;
+  }
+}
@@ -0,0 +1,9 @@
+import { SpeakerEmbeddingBackend } from '../types';
+
+// Turns a voice sample into a fixed-length vector; samples of the same voice point in similar directions
+export interface SpeakerEmbedder {
+  readonly backend: SpeakerEmbeddingBackend;
+
+  // Embed mono samples at the given rate. Rejects when the sample holds no usable speech.
+  embed(samples: Float32Array, sampleRate: number): Promise<number[]>;
+}
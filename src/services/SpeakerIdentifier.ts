@@ -0,0 +1,74 @@
+import { SpeakerIdConfig, VoiceProfile } from '../types';
+import { generateId } from '../lib/helpers';
+import { SpeakerEmbedder } from './SpeakerEmbedder';
+import { createSpeakerEmbedder } from './createSpeakerEmbedder';
+
+// Shorter samples carry too little of a voice to compare
+const MIN_IDENTIFY_SECONDS = 1;
+const MIN_ENROLL_SECONDS = 3;
+
+// Enrolled profile that best matches a voice sample
+export interface SpeakerMatch {
+  profile: VoiceProfile;
+  similarity: number;
+}
+
+// Enrolls the voices of recurring participants and attributes voice samples to them
+export class SpeakerIdentifier {
+  private config: SpeakerIdConfig;
+  private embedder: SpeakerEmbedder;
+
+  constructor(config: SpeakerIdConfig) {
+    this.config = config;
+    this.embedder = createSpeakerEmbedder(config);
+  }
+
+  // Build a profile from a sample of the person speaking
+  async enroll(name: string, samples: Float32Array, sampleRate: number): Promise<VoiceProfile> {
+    if (samples.length < sampleRate * MIN_ENROLL_SECONDS) {
+      throw new Error(`The voice sample must be at least ${MIN_ENROLL_SECONDS} seconds long`);
+    }
+
+    return {
+      id: generateId(),
+      name: name.trim(),
+      embedding: await this.embedder.embed(samples, sampleRate),
+      backend: this.embedder.backend,
+      createdAt: Date.now()
+    };
+  }
+
+  // The enrolled profile closest to the sample, or null if none is similar enough.
+  // Profiles enrolled with another backend are not comparable and are skipped.
+  async identify(samples: Float32Array, sampleRate: number): Promise<SpeakerMatch | null> {
+    const profiles = this.config.profiles.filter(profile => profile.backend === this.embedder.backend);
+    if (profiles.length === 0 || samples.length < sampleRate * MIN_IDENTIFY_SECONDS) {
+      return null;
+    }
+
+    const embedding = await this.embedder.embed(samples, sampleRate);
+    let best: SpeakerMatch | null = null;
+    for (const profile of profiles) {
+      const similarity = cosineSimilarity(embedding, profile.embedding);
+      if (!best || similarity > best.similarity) {
+        best = { profile, similarity };
+      }
+    }
+
+    return best && best.similarity >= this.config.threshold ? best : null;
+  }
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -0,0 +1,73 @@
+import { AudioSource, PendingSegment, SpeechProviderType, TranscriptSegment } from '../contexts/types';
+
+// Options passed to a provider when recognition starts
+export interface RecognitionOptions {
+  // Mix the microphone into system audio so both sides of a call are transcribed
+  mixMicrophone?: boolean;
+}
+
+// Options for transcribing a recorded audio file
+export interface FileTranscriptionOptions {
+  // Wall-clock time the file starts at; segment timestamps are offsets from it
+  startTime: number;
+  // Share of the file transcribed so far, from 0 to 1
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+// Outage and recovery of a running recognition, so the UI can tell the user
+export type RecognitionStatusEvent =
+  | { type: 'reconnecting'; attempt: number; delayMs: number; error: string }
+  // Recognition is running again; audio between gapStart and gapEnd was not transcribed
+  | { type: 'recovered'; gapStart: number; gapEnd: number }
+  // Recognition has stopped for good, e.g. recovery gave up or the microphone was denied
+  | { type: 'failed'; error: string }
+  // The shared tab or screen stopped sharing audio, so there is nothing left to recognize
+  | { type: 'sourceEnded' };
+
+// What a provider is able to do, so the UI can explain or disable unsupported options
+export interface SpeechProviderCapabilities {
+  speakerDiarization: boolean;
+  languageDetection: boolean;
+  systemAudio: boolean;
+  fileTranscription: boolean;
+  // Audio never leaves the machine
+  runsLocally: boolean;
+}
+
+// Common surface of every speech-to-text backend
+export interface SpeechProvider {
+  readonly type: SpeechProviderType;
+  readonly capabilities: SpeechProviderCapabilities;
+
+  // Verify the provider is reachable and configured
+  checkConnection(): Promise<boolean>;
+
+  // Start and stop continuous transcription
+  startRecognition(audioSource: AudioSource, options?: RecognitionOptions): Promise<void>;
+  stopRecognition(): Promise<void>;
+
+  // Stop sending audio without releasing the audio source, and pick up again on the same source
+  pauseRecognition(): Promise<void>;
+  resumeRecognition(): Promise<void>;
+
+  // Transcribe a recorded audio file, emitting segments through the same handler as live input.
+  // Resolves once the whole file has been processed or the signal aborts.
+  transcribeFile(file: File, options: FileTranscriptionOptions): Promise<void>;
+
+  // The audio being recognized, when the provider captures it itself
+  getMediaStream(): MediaStream | null;
+
+  // Replace the callback that receives final transcript segments
+  setSegmentHandler(handler: (segment: TranscriptSegment) => void): void;
+
+  // Replace the callback that receives interim hypotheses while an utterance is spoken;
+  // null means the pending utterance was dropped or finalized
+  setInterimHandler(handler: (segment: PendingSegment | null) => void): void;
+
+  // Replace the callback that is told when recognition fails and recovers
+  setStatusHandler(handler: (event: RecognitionStatusEvent) => void): void;
+
+  // Get current listening state
+  getIsListening(): boolean;
+}
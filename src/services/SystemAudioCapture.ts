@@ -0,0 +1,156 @@
+import * as speechsdk from 'microsoft-cognitiveservices-speech-sdk';
+import { toPcm16 } from './audioEncoding';
+
+// Sample format the Speech SDK expects from a push stream by default
+const TARGET_SAMPLE_RATE = 16000;
+const PROCESSOR_BUFFER_SIZE = 4096;
+
+function createPushStream(): speechsdk.PushAudioInputStream {
+  return speechsdk.AudioInputStream.createPushStream(
+    speechsdk.AudioStreamFormat.getWaveFormatPCM(TARGET_SAMPLE_RATE, 16, 1)
+  );
+}
+
+export interface SystemAudioCaptureOptions {
+  mixMicrophone?: boolean;
+  // Called when the user stops sharing from the browser UI
+  onEnded?: () => void;
+}
+
+// Captures tab/system audio through getDisplayMedia, optionally mixed with the microphone,
+// and feeds it to the Speech SDK as 16 kHz 16-bit mono PCM through a push stream
+export class SystemAudioCapture {
+  private displayStream: MediaStream | null = null;
+  private microphoneStream: MediaStream | null = null;
+  private mixedStream: MediaStream | null = null;
+  private audioContext: AudioContext | null = null;
+  private mixer: GainNode | null = null;
+  private processor: ScriptProcessorNode | null = null;
+  private pushStream: speechsdk.PushAudioInputStream | null = null;
+
+  // Ask the user to share a tab or screen with audio and start pumping samples into a push stream
+  async start(options: SystemAudioCaptureOptions = {}): Promise<speechsdk.AudioConfig> {
+    await this.captureStream(options);
+
+    this.pushStream = createPushStream();
+
+    // ScriptProcessorNode is deprecated but needs no separately bundled worklet module
+    this.processor = this.audioContext!.createScriptProcessor(PROCESSOR_BUFFER_SIZE, 1, 1);
+    this.processor.onaudioprocess = (event) => {
+      this.pushStream?.write(toPcm16(event.inputBuffer.getChannelData(0)));
+    };
+    this.mixer!.connect(this.processor);
+    // The processor only runs while connected to the graph output; it writes silence
+    this.processor.connect(this.audioContext!.destination);
+
+    return speechsdk.AudioConfig.fromStreamInput(this.pushStream);
+  }
+
+  // Stop feeding the recognizer while the capture keeps running, e.g. during a pause
+  detachStream(): void {
+    this.pushStream?.close();
+    this.pushStream = null;
+  }
+
+  // Feed the running capture into a new push stream, for a new recognizer after the previous one failed
+  renewAudioConfig(): speechsdk.AudioConfig {
+    if (!this.processor) {
+      throw new Error('System audio capture is not running.');
+    }
+
+    this.pushStream?.close();
+    this.pushStream = createPushStream();
+    return speechsdk.AudioConfig.fromStreamInput(this.pushStream);
+  }
+
+  // Ask the user to share a tab or screen with audio and return it mixed down to one MediaStream
+  async captureStream(options: SystemAudioCaptureOptions = {}): Promise<MediaStream> {
+    if (!navigator.mediaDevices?.getDisplayMedia) {
+      throw new Error('System audio capture is not supported in this browser.');
+    }
+
+    try {
+      // Most browsers only offer audio sharing when video is requested as well
+      this.displayStream = await navigator.mediaDevices.getDisplayMedia({
+        video: true,
+        audio: {
+          echoCancellation: false,
+          noiseSuppression: false,
+          autoGainControl: false
+        }
+      });
+
+      // The video track is not needed, stop it right away
+      this.displayStream.getVideoTracks().forEach(track => track.stop());
+
+      const [systemTrack] = this.displayStream.getAudioTracks();
+      if (!systemTrack) {
+        throw new Error('No audio was shared. Select a tab or screen and enable "Share audio".');
+      }
+
+      // Sharing can be ended from the browser UI, so close the stream and tell the owner when that happens
+      systemTrack.addEventListener('ended', () => {
+        console.log('System audio sharing ended by the user');
+        this.pushStream?.close();
+        options.onEnded?.();
+      });
+
+      if (options.mixMicrophone) {
+        this.microphoneStream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      }
+
+      this.audioContext = new AudioContext({ sampleRate: TARGET_SAMPLE_RATE });
+      const destination = this.audioContext.createMediaStreamDestination();
+
+      // Mix all captured sources into one mono node
+      this.mixer = this.audioContext.createGain();
+      this.mixer.channelCount = 1;
+      this.mixer.channelCountMode = 'explicit';
+      this.mixer.connect(destination);
+
+      this.audioContext.createMediaStreamSource(new MediaStream([systemTrack])).connect(this.mixer);
+      if (this.microphoneStream) {
+        this.audioContext.createMediaStreamSource(this.microphoneStream).connect(this.mixer);
+      }
+
+      this.mixedStream = destination.stream;
+
+      console.log(`System audio capture started${this.microphoneStream ? ' with microphone mixed in' : ''}`);
+      return this.mixedStream;
+    } catch (error) {
+      this.stop();
+      throw error;
+    }
+  }
+
+  // Stop capturing and release all devices
+  stop(): void {
+    if (this.processor) {
+      this.processor.onaudioprocess = null;
+      this.processor.disconnect();
+      this.processor = null;
+    }
+
+    if (this.audioContext) {
+      this.audioContext.close().catch(console.error);
+      this.audioContext = null;
+    }
+    this.mixer = null;
+
+    this.displayStream?.getTracks().forEach(track => track.stop());
+    this.microphoneStream?.getTracks().forEach(track => track.stop());
+    this.displayStream = null;
+    this.microphoneStream = null;
+    this.mixedStream = null;
+
+    if (this.pushStream) {
+      this.pushStream.close();
+      this.pushStream = null;
+    }
+  }
+
+  // Mixed audio as a MediaStream, e.g. for level metering or recording
+  getMediaStream(): MediaStream | null {
+    return this.mixedStream;
+  }
+}
@@ -0,0 +1,188 @@
+import { SummaryChunk, TranscriptSegment } from '../contexts/types';
+
+// Counts the tokens a model would see for a piece of text
+export type TokenCounter = (text: string) => number;
+
+// Context window assumed for models the table below does not know; set one in the settings to use more
+export const DEFAULT_CONTEXT_WINDOW = 8192;
+
+// Context windows by model family, matched against the model or deployment name. More specific
+// names come before the families they belong to.
+const CONTEXT_WINDOWS: [string, number][] = [
+  ['gpt-5', 400000],
+  ['gpt-4.1', 1047576],
+  ['gpt-4o', 128000],
+  ['gpt-4-turbo', 128000],
+  ['gpt-4-32k', 32768],
+  ['gpt-4', 8192],
+  ['gpt-3.5-turbo', 16385],
+  ['o1-mini', 128000],
+  ['o1', 200000],
+  ['o3', 200000],
+  ['o4-mini', 200000],
+];
+
+// Models tokenized with o200k_base; everything else is counted with cl100k_base. Other vendors'
+// models use tokenizers of their own, which the safety margin of the budget absorbs.
+const O200K_MODELS = ['gpt-5', 'gpt-4.1', 'gpt-4o', 'o1', 'o3', 'o4'];
+
+// Reasoning model families, which take max_completion_tokens and only their default temperature
+const REASONING_MODELS = ['gpt-5', 'o1', 'o3', 'o4'];
+
+// Share of the context window left unused, for counting differences and message framing
+const SAFETY_MARGIN = 0.1;
+
+// Tokens the chat format adds around each message
+const TOKENS_PER_MESSAGE = 4;
+
+// Deployment names often spell GPT-3.5 without the dot, as Azure model names do
+function normalizeModelName(model: string): string {
+  return model.toLowerCase().replace('gpt-35', 'gpt-3.5');
+}
+
+// Whether a model reasons before it answers. Families are matched at the start of the name or after
+// a separator, since deployment names often carry a prefix such as 'prod-o3'.
+export function isReasoningModel(model: string): boolean {
+  const name = normalizeModelName(model);
+  return REASONING_MODELS.some(family => new RegExp(`(^|[^a-z0-9])${family}`).test(name));
+}
+
+// Context window of a model, unless the settings name one
+export function getContextWindow(model: string, configured?: number): number {
+  if (configured && configured > 0) {
+    return configured;
+  }
+
+  const name = normalizeModelName(model);
+  const match = CONTEXT_WINDOWS.find(([family]) => name.includes(family));
+  return match ? match[1] : DEFAULT_CONTEXT_WINDOW;
+}
+
+// Tokenizers are large, so each is loaded the first time a prompt needs it and then kept
+const tokenCounters = new Map<string, Promise<TokenCounter>>();
+
+// Token counter for the tokenizer a model uses
+export function loadTokenCounter(model: string): Promise<TokenCounter> {
+  const name = normalizeModelName(model);
+  const encoding = O200K_MODELS.some(family => name.includes(family)) ? 'o200k_base' : 'cl100k_base';
+
+  let counter = tokenCounters.get(encoding);
+  if (!counter) {
+    counter = (encoding === 'o200k_base'
+      ? import('gpt-tokenizer/encoding/o200k_base')
+      : import('gpt-tokenizer/encoding/cl100k_base')
+    ).then(tokenizer => (text: string) => tokenizer.countTokens(text));
+    // A failed download is retried with the next prompt
+    counter.catch(() => tokenCounters.delete(encoding));
+    tokenCounters.set(encoding, counter);
+  }
+  return counter;
+}
+
+// Tokens of a chat request's messages, including the framing around each one
+export function countMessageTokens(messages: { content: string }[], countTokens: TokenCounter): number {
+  return messages.reduce((sum, message) => sum + TOKENS_PER_MESSAGE + countTokens(message.content), 0);
+}
+
+// Prompt tokens a request may use, leaving room for the answer and the safety margin
+export function getPromptBudget(contextWindow: number, maxAnswerTokens: number): number {
+  return Math.floor(contextWindow * (1 - SAFETY_MARGIN)) - maxAnswerTokens;
+}
+
+// Share of the transcript budget kept for the most recent segments
+const RECENT_SHARE = 0.5;
+
+// Share of the transcript budget summaries of earlier parts may take
+const SUMMARY_SHARE = 0.25;
+
+// Words too common to tell segments apart when matching them to a question
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'was', 'were', 'what', 'who', 'whom', 'when', 'where', 'which', 'why',
+  'how', 'did', 'does', 'that', 'this', 'these', 'those', 'with', 'about', 'from', 'have', 'has',
+  'had', 'you', 'your', 'they', 'them', 'their', 'there', 'then', 'than', 'will', 'would', 'could',
+  'should', 'can', 'said', 'say', 'says', 'tell', 'any', 'all', 'our', 'not', 'but', 'into', 'its',
+  'been', 'being', 'also', 'just', 'some', 'meeting', 'call', 'conversation', 'discuss', 'discussed',
+  'mention', 'mentioned', 'talk', 'talked'
+]);
+
+// Lowercase words of a text that are worth matching on
+function getKeywords(text: string): Set<string> {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  return new Set(words.filter(word => word.length > 2 && !STOP_WORDS.has(word)));
+}
+
+// Transcript context that fits a token budget
+export interface SelectedContext {
+  segments: TranscriptSegment[]; // Chronological
+  summaries: SummaryChunk[]; // Summaries of earlier parts left out, chronological
+}
+
+// Pick the transcript context for a question within a token budget. A transcript that fits is
+// used as a whole. Otherwise the most recent segments come first, then summaries of the parts
+// before them, then older segments that share words with the question, and any budget still
+// left extends the recent stretch further back.
+export function selectContext(
+  question: string,
+  segments: TranscriptSegment[],
+  summaries: SummaryChunk[],
+  budget: number,
+  segmentTokens: (segment: TranscriptSegment) => number,
+  summaryTokens: (summary: SummaryChunk) => number
+): SelectedContext {
+  const costs = segments.map(segmentTokens);
+  const total = costs.reduce((sum, cost) => sum + cost, 0);
+  if (total <= budget) {
+    return { segments, summaries: [] };
+  }
+
+  const selected = new Set<number>();
+  let used = 0;
+  const take = (index: number, limit: number) => {
+    if (selected.has(index) || used + costs[index] > limit) return false;
+    selected.add(index);
+    used += costs[index];
+    return true;
+  };
+
+  // Recent segments, newest first
+  let oldestRecent = segments.length;
+  while (oldestRecent > 0 && take(oldestRecent - 1, budget * RECENT_SHARE)) {
+    oldestRecent--;
+  }
+
+  // Summaries of the part before the recent stretch, newest first
+  const recentStart = oldestRecent < segments.length ? segments[oldestRecent].timestamp : Infinity;
+  const includedSummaries: SummaryChunk[] = [];
+  let summaryUsed = 0;
+  for (const summary of [...summaries].filter(s => s.startTime < recentStart).reverse()) {
+    const cost = summaryTokens(summary);
+    if (summaryUsed + cost > budget * SUMMARY_SHARE) break;
+    includedSummaries.unshift(summary);
+    summaryUsed += cost;
+  }
+  used += summaryUsed;
+
+  // Older segments that match the question, best matches first
+  const keywords = getKeywords(question);
+  const matches = segments
+    .slice(0, oldestRecent)
+    .map((segment, index) => {
+      const words = getKeywords(segment.text);
+      return { index, score: [...keywords].filter(keyword => words.has(keyword)).length };
+    })
+    .filter(match => match.score > 0)
+    .sort((a, b) => b.score - a.score || b.index - a.index);
+  for (const match of matches) {
+    take(match.index, budget);
+  }
+
+  // Whatever is left goes to the stretch before the recent segments
+  for (let index = oldestRecent - 1; index >= 0; index--) {
+    if (!selected.has(index) && !take(index, budget)) break;
+  }
+
+  return {
+    segments: segments.filter((_, index) => selected.has(index)),
+    summaries: includedSummaries
+  };
+}
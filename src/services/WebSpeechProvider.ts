@@ -0,0 +1,240 @@
+import { AudioSource, PendingSegment, TranscriptSegment } from '../contexts/types';
+import { WebSpeechConfig } from '../types';
+import { isQuestion } from '../lib/helpers';
+import {
+  FileTranscriptionOptions,
+  RecognitionOptions,
+  RecognitionStatusEvent,
+  SpeechProvider,
+  SpeechProviderCapabilities
+} from './SpeechProvider';
+
+// Minimal typings for the Web Speech API, which is not part of the TypeScript DOM library
+interface BrowserSpeechRecognitionAlternative {
+  transcript: string;
+  confidence: number;
+}
+
+interface BrowserSpeechRecognitionResult {
+  readonly isFinal: boolean;
+  readonly length: number;
+  [index: number]: BrowserSpeechRecognitionAlternative;
+}
+
+interface BrowserSpeechRecognitionEvent extends Event {
+  readonly resultIndex: number;
+  readonly results: {
+    readonly length: number;
+    [index: number]: BrowserSpeechRecognitionResult;
+  };
+}
+
+interface BrowserSpeechRecognitionErrorEvent extends Event {
+  readonly error: string;
+  readonly message: string;
+}
+
+interface BrowserSpeechRecognition extends EventTarget {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: BrowserSpeechRecognitionEvent) => void) | null;
+  onerror: ((event: BrowserSpeechRecognitionErrorEvent) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+
+type BrowserSpeechRecognitionConstructor = new () => BrowserSpeechRecognition;
+
+// Resolve the (possibly vendor-prefixed) SpeechRecognition constructor
+function getSpeechRecognitionConstructor(): BrowserSpeechRecognitionConstructor | null {
+  const speechWindow = window as unknown as {
+    SpeechRecognition?: BrowserSpeechRecognitionConstructor;
+    webkitSpeechRecognition?: BrowserSpeechRecognitionConstructor;
+  };
+  return speechWindow.SpeechRecognition || speechWindow.webkitSpeechRecognition || null;
+}
+
+// Errors that restarting recognition cannot fix, with the message shown for them
+const FATAL_ERRORS: Record<string, string> = {
+  'not-allowed': 'Microphone access was denied',
+  'audio-capture': 'No microphone was found',
+  'service-not-allowed': 'Speech recognition is not allowed in this browser'
+};
+
+// Speech provider backed by the browser's built-in Web Speech API.
+// Needs no credentials, but note that Chrome and Edge send audio to their vendor's cloud service.
+export class WebSpeechProvider implements SpeechProvider {
+  readonly type = 'webspeech';
+  readonly capabilities: SpeechProviderCapabilities = {
+    speakerDiarization: false,
+    languageDetection: false,
+    systemAudio: false,
+    fileTranscription: false,
+    runsLocally: false
+  };
+
+  private config: WebSpeechConfig;
+  private onSegmentReceived: (segment: TranscriptSegment) => void;
+  private onInterimReceived: (segment: PendingSegment | null) => void = () => {};
+  private onStatusChanged: (event: RecognitionStatusEvent) => void = () => {};
+  private recognition: BrowserSpeechRecognition | null = null;
+  private isListening: boolean = false;
+  // Set by an error that ends recognition for good, so it is not restarted
+  private fatalError: string | null = null;
+
+  constructor(
+    config: WebSpeechConfig,
+    onSegmentReceived: (segment: TranscriptSegment) => void
+  ) {
+    this.config = config;
+    this.onSegmentReceived = onSegmentReceived;
+  }
+
+  // The API needs no connection, only browser support
+  async checkConnection(): Promise<boolean> {
+    return getSpeechRecognitionConstructor() !== null;
+  }
+
+  // Start continuous recognition from the default microphone
+  async startRecognition(audioSource: AudioSource, _options: RecognitionOptions = {}): Promise<void> {
+    if (this.isListening) {
+      return;
+    }
+
+    const SpeechRecognition = getSpeechRecognitionConstructor();
+    if (!SpeechRecognition) {
+      throw new Error('The Web Speech API is not supported in this browser.');
+    }
+
+    if (audioSource === 'system') {
+      throw new Error('The browser speech provider can only listen to the microphone.');
+    }
+
+    this.fatalError = null;
+    this.recognition = new SpeechRecognition();
+    this.recognition.lang = this.config.language || 'en-US';
+    this.recognition.continuous = true;
+    this.recognition.interimResults = true;
+
+    this.recognition.onresult = (event) => {
+      // Results that are not final yet make up the utterance still being spoken
+      let interimText = '';
+
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i];
+        const text = result[0]?.transcript.trim();
+        if (!text) {
+          continue;
+        }
+
+        if (!result.isFinal) {
+          interimText = interimText ? `${interimText} ${text}` : text;
+          continue;
+        }
+
+        this.onSegmentReceived({
+          id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
+          text,
+          timestamp: Date.now(),
+          // Some browsers report 0 when they have no confidence estimate
+          confidence: result[0].confidence || 0.9,
+          language: this.recognition?.lang,
+          isQuestion: isQuestion(text)
+        });
+      }
+
+      this.onInterimReceived(interimText
+        ? { text: interimText, timestamp: Date.now(), language: this.recognition?.lang }
+        : null);
+    };
+
+    this.recognition.onerror = (event) => {
+      // 'no-speech' fires after a few seconds of silence and is harmless
+      if (event.error !== 'no-speech') {
+        console.error('Web Speech recognition error:', event.error, event.message);
+      }
+      if (FATAL_ERRORS[event.error]) {
+        this.fatalError = FATAL_ERRORS[event.error];
+      }
+    };
+
+    this.recognition.onend = () => {
+      if (this.fatalError) {
+        this.isListening = false;
+        this.recognition = null;
+        this.onStatusChanged({ type: 'failed', error: this.fatalError });
+        return;
+      }
+
+      // Browsers end the session after silence or a time limit, so keep it going until stopped
+      if (this.isListening && this.recognition) {
+        console.log('Web Speech recognition ended, restarting');
+        this.recognition.start();
+      }
+    };
+
+    this.recognition.start();
+    this.isListening = true;
+    console.log('Web Speech recognition started with language:', this.recognition.lang);
+  }
+
+  // Stop recognition
+  async stopRecognition(): Promise<void> {
+    // Set listening to false first to prevent auto-restart
+    this.isListening = false;
+
+    if (this.recognition) {
+      this.recognition.onend = null;
+      this.recognition.stop();
+      this.recognition = null;
+      console.log('Web Speech recognition stopped');
+    }
+  }
+
+  // The browser owns the microphone, so pausing ends recognition and resuming starts it again
+  async pauseRecognition(): Promise<void> {
+    await this.stopRecognition();
+  }
+
+  async resumeRecognition(): Promise<void> {
+    await this.startRecognition('microphone');
+  }
+
+  // The Web Speech API only listens to live microphone input
+  async transcribeFile(_file: File, _options: FileTranscriptionOptions): Promise<void> {
+    throw new Error('The browser speech provider cannot transcribe audio files.');
+  }
+
+  // The API does not expose the audio it listens to
+  getMediaStream(): MediaStream | null {
+    return null;
+  }
+
+  // Replace the callback that receives final transcript segments
+  setSegmentHandler(handler: (segment: TranscriptSegment) => void): void {
+    this.onSegmentReceived = handler;
+  }
+
+  // Replace the callback that receives interim hypotheses
+  setInterimHandler(handler: (segment: PendingSegment | null) => void): void {
+    this.onInterimReceived = handler;
+  }
+
+  // Recognition is restarted when the browser ends it; only errors that a restart cannot fix are reported
+  setStatusHandler(handler: (event: RecognitionStatusEvent) => void): void {
+    this.onStatusChanged = handler;
+  }
+
+  // Update service configuration
+  updateConfig(config: WebSpeechConfig): void {
+    this.config = config;
+  }
+
+  // Get current listening state
+  getIsListening(): boolean {
+    return this.isListening;
+  }
+}
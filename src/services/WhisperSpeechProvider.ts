@@ -0,0 +1,282 @@
+import { AudioSource, PendingSegment, TranscriptSegment } from '../contexts/types';
+import { WhisperConfig } from '../types';
+import { isQuestion } from '../lib/helpers';
+import {
+  FileTranscriptionOptions,
+  RecognitionOptions,
+  RecognitionStatusEvent,
+  SpeechProvider,
+  SpeechProviderCapabilities
+} from './SpeechProvider';
+import { SystemAudioCapture } from './SystemAudioCapture';
+import { decodeAudioFile, encodeWav, getSupportedRecordingMimeType } from './audioEncoding';
+
+// Audio files are cut into windows of Whisper's native 30 seconds at 16 kHz
+const FILE_SAMPLE_RATE = 16000;
+const FILE_WINDOW_SECONDS = 30;
+
+// Speech provider for an OpenAI-compatible transcription server such as whisper.cpp,
+// faster-whisper-server or LocalAI. Audio is recorded in fixed windows and each window
+// is posted to /audio/transcriptions, so nothing leaves the machine when the server is local.
+export class WhisperSpeechProvider implements SpeechProvider {
+  readonly type = 'whisper';
+  readonly capabilities: SpeechProviderCapabilities = {
+    speakerDiarization: false,
+    languageDetection: true,
+    systemAudio: true,
+    fileTranscription: true,
+    runsLocally: true
+  };
+
+  private config: WhisperConfig;
+  private onSegmentReceived: (segment: TranscriptSegment) => void;
+  private onStatusChanged: (event: RecognitionStatusEvent) => void = () => {};
+  private stream: MediaStream | null = null;
+  private systemAudioCapture: SystemAudioCapture | null = null;
+  private recorder: MediaRecorder | null = null;
+  private windowTimer: ReturnType<typeof setTimeout> | null = null;
+  private transcriptionQueue: Promise<void> = Promise.resolve();
+  private isListening: boolean = false;
+
+  constructor(
+    config: WhisperConfig,
+    onSegmentReceived: (segment: TranscriptSegment) => void
+  ) {
+    this.config = config;
+    this.onSegmentReceived = onSegmentReceived;
+  }
+
+  // Check that the server answers at the configured base URL
+  async checkConnection(): Promise<boolean> {
+    if (!this.config.endpoint) {
+      return false;
+    }
+
+    try {
+      // Not every server implements /models, so any non-auth response counts as reachable
+      const response = await fetch(`${this.getBaseUrl()}/models`, {
+        headers: this.getHeaders()
+      });
+      return response.status !== 401 && response.status !== 403;
+    } catch (error) {
+      console.error('Whisper server connection test failed:', error);
+      return false;
+    }
+  }
+
+  // Start recording audio windows and transcribing them
+  async startRecognition(audioSource: AudioSource, options: RecognitionOptions = {}): Promise<void> {
+    if (this.isListening) {
+      return;
+    }
+
+    if (!this.config.endpoint) {
+      throw new Error('Whisper server not configured. Please set the endpoint URL.');
+    }
+
+    try {
+      if (audioSource === 'system') {
+        this.systemAudioCapture = new SystemAudioCapture();
+        this.stream = await this.systemAudioCapture.captureStream({
+          mixMicrophone: options.mixMicrophone,
+          onEnded: () => this.onStatusChanged({ type: 'sourceEnded' })
+        });
+      } else {
+        this.stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      }
+
+      this.isListening = true;
+      this.recordWindow();
+      console.log('Whisper transcription started');
+    } catch (error) {
+      console.error('Error starting Whisper transcription:', error);
+      await this.stopRecognition();
+      throw error;
+    }
+  }
+
+  // Stop recording; the last partial window is still transcribed
+  async stopRecognition(): Promise<void> {
+    this.stopWindows();
+
+    if (this.systemAudioCapture) {
+      this.systemAudioCapture.stop();
+      this.systemAudioCapture = null;
+    } else {
+      this.stream?.getTracks().forEach(track => track.stop());
+    }
+    this.stream = null;
+  }
+
+  // Stop recording windows but keep the audio source; the window in progress is still transcribed
+  async pauseRecognition(): Promise<void> {
+    this.stopWindows();
+  }
+
+  async resumeRecognition(): Promise<void> {
+    if (this.isListening || !this.stream) {
+      return;
+    }
+
+    this.isListening = true;
+    this.recordWindow();
+  }
+
+  // Transcribe an audio file window by window, timing segments from the file start
+  async transcribeFile(file: File, options: FileTranscriptionOptions): Promise<void> {
+    if (!this.config.endpoint) {
+      throw new Error('Whisper server not configured. Please set the endpoint URL.');
+    }
+
+    const samples = await decodeAudioFile(file, FILE_SAMPLE_RATE);
+    const windowLength = FILE_WINDOW_SECONDS * FILE_SAMPLE_RATE;
+    const windowCount = Math.max(1, Math.ceil(samples.length / windowLength));
+
+    for (let index = 0; index < windowCount; index++) {
+      if (options.signal?.aborted) {
+        return;
+      }
+
+      const window = samples.subarray(index * windowLength, (index + 1) * windowLength);
+      await this.transcribe(encodeWav(window, FILE_SAMPLE_RATE), options.startTime + index * FILE_WINDOW_SECONDS * 1000);
+      options.onProgress?.((index + 1) / windowCount);
+    }
+  }
+
+  // The stream being recorded, for archiving alongside transcription
+  getMediaStream(): MediaStream | null {
+    return this.stream;
+  }
+
+  // Replace the callback that receives final transcript segments
+  setSegmentHandler(handler: (segment: TranscriptSegment) => void): void {
+    this.onSegmentReceived = handler;
+  }
+
+  // Each window is transcribed as a whole, so there are no interim hypotheses to report
+  setInterimHandler(_handler: (segment: PendingSegment | null) => void): void {}
+
+  // A failed window is skipped and the next one is sent regardless, so only the end of shared audio is reported
+  setStatusHandler(handler: (event: RecognitionStatusEvent) => void): void {
+    this.onStatusChanged = handler;
+  }
+
+  // Update service configuration
+  updateConfig(config: WhisperConfig): void {
+    this.config = config;
+  }
+
+  // Get current listening state
+  getIsListening(): boolean {
+    return this.isListening;
+  }
+
+  // End the window in progress and stop scheduling new ones
+  private stopWindows(): void {
+    this.isListening = false;
+
+    if (this.windowTimer) {
+      clearTimeout(this.windowTimer);
+      this.windowTimer = null;
+    }
+
+    if (this.recorder && this.recorder.state !== 'inactive') {
+      this.recorder.stop();
+    }
+    this.recorder = null;
+  }
+
+  // Record one window of audio. Each window uses a fresh recorder so every blob is a complete file.
+  private recordWindow(): void {
+    if (!this.isListening || !this.stream) {
+      return;
+    }
+
+    const mimeType = getSupportedRecordingMimeType();
+    const recorder = new MediaRecorder(this.stream, mimeType ? { mimeType } : undefined);
+    const chunks: Blob[] = [];
+    const windowStart = Date.now();
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        chunks.push(event.data);
+      }
+    };
+
+    recorder.onstop = () => {
+      const audio = new Blob(chunks, { type: recorder.mimeType });
+      // Transcribe windows one after another so segments arrive in order
+      this.transcriptionQueue = this.transcriptionQueue
+        .then(() => this.transcribe(audio, windowStart))
+        .catch(error => console.error('Error transcribing audio window:', error));
+    };
+
+    recorder.start();
+    this.recorder = recorder;
+
+    const windowMs = Math.max(2, this.config.windowSeconds || 10) * 1000;
+    this.windowTimer = setTimeout(() => {
+      recorder.stop();
+      this.recordWindow();
+    }, windowMs);
+  }
+
+  // Send one audio window to the server and emit a segment per sentence
+  private async transcribe(audio: Blob, windowStart: number): Promise<void> {
+    if (audio.size === 0) {
+      return;
+    }
+
+    const extension = audio.type.includes('wav') ? 'wav'
+      : audio.type.includes('ogg') ? 'ogg'
+      : audio.type.includes('mp4') ? 'm4a'
+      : 'webm';
+    const formData = new FormData();
+    formData.append('file', audio, `window-${windowStart}.${extension}`);
+    formData.append('model', this.config.model || 'whisper-1');
+    formData.append('response_format', 'json');
+    if (this.config.language) {
+      // Whisper expects an ISO-639-1 code, not a full locale
+      formData.append('language', this.config.language.split('-')[0]);
+    }
+
+    const response = await fetch(`${this.getBaseUrl()}/audio/transcriptions`, {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: formData
+    });
+
+    if (!response.ok) {
+      throw new Error(`Whisper API call failed: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    const text: string = (data.text || '').trim();
+    if (!text) {
+      return;
+    }
+
+    const sentences = text.match(/[^.!?]+[.!?]*/g) || [text];
+    sentences
+      .map(sentence => sentence.trim())
+      .filter(sentence => sentence.length > 0)
+      .forEach(sentence => {
+        this.onSegmentReceived({
+          id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
+          text: sentence,
+          timestamp: windowStart,
+          confidence: 0.9,
+          language: this.config.language || undefined,
+          isQuestion: isQuestion(sentence)
+        });
+      });
+  }
+
+  private getBaseUrl(): string {
+    return this.config.endpoint.replace(/\/+$/, '');
+  }
+
+  private getHeaders(): Record<string, string> {
+    return this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {};
+  }
+}
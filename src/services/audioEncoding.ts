@@ -0,0 +1,76 @@
+// Helpers for turning browser audio into the raw PCM and WAV data speech services accept
+
+// MediaRecorder container formats to try, in order of preference
+const RECORDING_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/ogg;codecs=opus', 'audio/mp4'];
+
+// First recording format the browser supports, or undefined to let MediaRecorder choose
+export function getSupportedRecordingMimeType(): string | undefined {
+  return RECORDING_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+}
+
+// Convert Web Audio float samples to little-endian 16-bit PCM
+export function toPcm16(samples: Float32Array): ArrayBuffer {
+  const buffer = new ArrayBuffer(samples.length * 2);
+  const view = new DataView(buffer);
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+  }
+  return buffer;
+}
+
+// Decode an audio file in any format the browser supports (WAV, MP3, OGG, ...) and
+// resample it to mono at the given rate
+export async function decodeAudioFile(file: Blob, sampleRate: number): Promise<Float32Array> {
+  const data = await file.arrayBuffer();
+
+  const decodingContext = new AudioContext();
+  let decoded: AudioBuffer;
+  try {
+    decoded = await decodingContext.decodeAudioData(data);
+  } catch (error) {
+    throw new Error('The audio file could not be decoded. Use a WAV, MP3 or OGG file.');
+  } finally {
+    decodingContext.close().catch(console.error);
+  }
+
+  // Render through an offline context to mix down to one channel and resample
+  const length = Math.ceil(decoded.duration * sampleRate);
+  const offlineContext = new OfflineAudioContext(1, length, sampleRate);
+  const source = offlineContext.createBufferSource();
+  source.buffer = decoded;
+  source.connect(offlineContext.destination);
+  source.start();
+
+  const rendered = await offlineContext.startRendering();
+  return rendered.getChannelData(0);
+}
+
+// Wrap mono float samples in a 16-bit PCM WAV file
+export function encodeWav(samples: Float32Array, sampleRate: number): Blob {
+  const header = new ArrayBuffer(44);
+  const view = new DataView(header);
+  const dataSize = samples.length * 2;
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // byte rate
+  view.setUint16(32, 2, true); // block align
+  view.setUint16(34, 16, true); // bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  return new Blob([header, toPcm16(samples)], { type: 'audio/wav' });
+}
@@ -0,0 +1,23 @@
+import { AppSettings } from '../contexts/types';
+import { AzureOpenAIProvider } from './AzureOpenAIProvider';
+import { LLMProvider } from './LLMProvider';
+import { LocalLLMProvider } from './LocalLLMProvider';
+import { OpenAIProvider } from './OpenAIProvider';
+
+// Create the chat model provider selected in settings
+export function createLLMProvider(settings: AppSettings): LLMProvider {
+  switch (settings.llmProvider) {
+    case 'openai':
+      return new OpenAIProvider(settings.openaiPlatform);
+    case 'local':
+      return new LocalLLMProvider(settings.localLLM);
+    case 'azure':
+    default:
+      return new AzureOpenAIProvider(settings.openai);
+  }
+}
+
+// Whether the selected provider has enough settings to attempt a connection
+export function isLLMProviderConfigured(settings: AppSettings): boolean {
+  return createLLMProvider(settings).isConfigured();
+}
@@ -0,0 +1,15 @@
+import { SpeakerIdConfig } from '../types';
+import { HttpSpeakerEmbedder } from './HttpSpeakerEmbedder';
+import { LocalSpeakerEmbedder } from './LocalSpeakerEmbedder';
+import { SpeakerEmbedder } from './SpeakerEmbedder';
+
+// Create the voice embedding backend selected in settings
+export function createSpeakerEmbedder(config: SpeakerIdConfig): SpeakerEmbedder {
+  switch (config.backend) {
+    case 'http':
+      return new HttpSpeakerEmbedder(config);
+    case 'local':
+    default:
+      return new LocalSpeakerEmbedder();
+  }
+}
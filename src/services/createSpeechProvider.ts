@@ -0,0 +1,45 @@
+import { AppSettings, TranscriptSegment } from '../contexts/types';
+import { AzureSpeechService } from './AzureSpeechService';
+import { SpeechProvider } from './SpeechProvider';
+import { WebSpeechProvider } from './WebSpeechProvider';
+import { WhisperSpeechProvider } from './WhisperSpeechProvider';
+
+// Create the speech provider selected in settings
+export function createSpeechProvider(
+  settings: AppSettings,
+  onSegmentReceived: (segment: TranscriptSegment) => void
+): SpeechProvider {
+  switch (settings.speechProvider) {
+    case 'webspeech':
+      return new WebSpeechProvider(settings.webSpeech, onSegmentReceived);
+    case 'whisper':
+      return new WhisperSpeechProvider(settings.whisper, onSegmentReceived);
+    case 'azure':
+    default:
+      return new AzureSpeechService(settings.stt, onSegmentReceived);
+  }
+}
+
+// Push changed settings into an existing provider of the same type
+export function updateSpeechProviderConfig(provider: SpeechProvider, settings: AppSettings): void {
+  if (provider instanceof AzureSpeechService) {
+    provider.updateConfig(settings.stt);
+  } else if (provider instanceof WebSpeechProvider) {
+    provider.updateConfig(settings.webSpeech);
+  } else if (provider instanceof WhisperSpeechProvider) {
+    provider.updateConfig(settings.whisper);
+  }
+}
+
+// Whether the selected provider has enough settings to attempt a connection
+export function isSpeechProviderConfigured(settings: AppSettings): boolean {
+  switch (settings.speechProvider) {
+    case 'webspeech':
+      return true;
+    case 'whisper':
+      return !!settings.whisper.endpoint;
+    case 'azure':
+    default:
+      return !!(settings.stt.endpoint && settings.stt.subscriptionKey && settings.stt.region);
+  }
+}
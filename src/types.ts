@@ -7,6 +7,56 @@ export interface AzureSTTConfig {
   enableLanguageDetection?: boolean;
   candidateLanguages?: string[];
   continuousLanguageIdentification?: boolean;
+  // Label utterances with the speaker the service identified
+  enableSpeakerDiarization?: boolean;
+  // Custom Speech model deployment to recognize with instead of the base model
+  endpointId?: string;
+  // Phrase lists; the active profile's phrases are boosted each time recognition starts
+  vocabularyProfiles?: VocabularyProfile[];
+  activeVocabularyProfileId?: string | null;
+}
+
+// Named list of product names, acronyms and other terms the recognizer should expect
+export interface VocabularyProfile {
+  id: string;
+  name: string;
+  phrases: string[];
+}
+
+// Types for the browser Web Speech API provider
+export interface WebSpeechConfig {
+  language: string;
+}
+
+// Types for an OpenAI-compatible Whisper transcription server (whisper.cpp, faster-whisper-server, LocalAI)
+export interface WhisperConfig {
+  endpoint: string; // Base URL including the API prefix, e.g. http://localhost:8000/v1
+  apiKey: string; // Optional for local servers
+  model: string;
+  language: string; // Empty to let the server detect it
+  windowSeconds: number; // Length of each audio window sent for transcription
+}
+
+// Where voice embeddings are computed: in the browser, or by a speaker recognition service
+export type SpeakerEmbeddingBackend = 'local' | 'http';
+
+// Types for naming segments after enrolled voices
+export interface SpeakerIdConfig {
+  enabled: boolean;
+  backend: SpeakerEmbeddingBackend;
+  endpoint: string; // For 'http': URL that takes a WAV body and returns { "embedding": number[] }
+  apiKey: string; // Optional
+  threshold: number; // Cosine similarity a segment needs to be attributed to a profile, 0 to 1
+  profiles: VoiceProfile[];
+}
+
+// Enrolled voice of a recurring participant. Only the embedding is kept, not the recorded sample.
+export interface VoiceProfile {
+  id: string;
+  name: string;
+  embedding: number[];
+  backend: SpeakerEmbeddingBackend; // Embeddings only compare with others from the same backend
+  createdAt: number;
 }
 
 // Types for the Azure OpenAI service
@@ -14,6 +64,23 @@ export interface AzureOpenAIConfig {
   endpoint: string;
   subscriptionKey: string;
   deploymentName: string;
+  contextWindow?: number; // Tokens the deployment accepts; guessed from the name when unset
+  reasoningModel?: boolean; // Whether the deployment runs a reasoning model; guessed from the name when unset
+}
+
+// Types for the OpenAI platform API
+export interface OpenAIConfig {
+  apiKey: string;
+  model: string;
+  contextWindow?: number; // Tokens the model accepts; guessed from the name when unset
+}
+
+// Types for a local OpenAI-compatible chat server (Ollama, llama.cpp, vLLM)
+export interface LocalLLMConfig {
+  endpoint: string; // Base URL including the API prefix, e.g. http://localhost:11434/v1
+  apiKey: string; // Optional for local servers
+  model: string;
+  contextWindow?: number; // Tokens the server is configured for, e.g. Ollama's num_ctx
 }
 
 // App settings type
@@ -34,6 +101,7 @@ export const defaultSettings: AppSettings = {
     enableLanguageDetection: false,
     candidateLanguages: ['en-US'],
     continuousLanguageIdentification: false,
+    enableSpeakerDiarization: true,
   },
   openai: {
     endpoint: '',
@@ -52,6 +120,7 @@ export interface TranscriptSegment {
   speakerId: string;
   timestamp: number;
   isQuestion: boolean;
+  language?: string; // Locale the segment was recognized in, e.g. 'de-DE'
 }
 
 // Summary chunk